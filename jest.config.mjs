@@ -0,0 +1,16 @@
+/** @type {import("jest").Config} */
+const jestConfig = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/src", "<rootDir>/scripts"],
+  setupFilesAfterEnv: ["<rootDir>/jest.setup.ts"],
+  moduleNameMapper: {
+    "^@/(.*)$": "<rootDir>/$1",
+  },
+  transform: {
+    "^.+\\.tsx?$": ["ts-jest", {
+      tsconfig: { module: "commonjs", moduleResolution: "node", jsx: "react-jsx", isolatedModules: true },
+    }],
+  },
+};
+
+export default jestConfig;
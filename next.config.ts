@@ -1,7 +1,22 @@
 import type { NextConfig } from "next";
 
+// Origin allowed to call the API routes from the embeddable bundle ("*" for any).
+const embedOrigin = process.env.EMBED_ALLOWED_ORIGIN;
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  async headers() {
+    if (!embedOrigin) return [];
+    return [
+      {
+        source: "/api/:path*",
+        headers: [
+          { key: "Access-Control-Allow-Origin", value: embedOrigin },
+          { key: "Access-Control-Allow-Methods", value: "GET, POST, OPTIONS" },
+          { key: "Access-Control-Allow-Headers", value: "Content-Type" },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
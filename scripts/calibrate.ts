@@ -0,0 +1,110 @@
+import { readFileSync, writeFileSync } from "fs"
+import { basename } from "path"
+import { parseArgs } from "util"
+import { parseRecording, replayRecording, type InputRecording } from "../src/app/lib/recording"
+import { calibrate, parseRuns, type Label, type LabeledRun } from "./lib/calibration"
+
+const USAGE = `Usage: npm run calibrate -- [options] <results.json | recording.json...>
+
+Fits detector weights, likelihood ratios and level thresholds from labeled scenario runs
+and input recordings.
+
+Options:
+  --labels <file>   JSON map of scenario (or recording file) name -> "human" | "bot" for runs without a label
+  --out <file>      Write the fitted detector config (load it with DETECTOR_CONFIG_PATH)
+  --prior <p>       P(bot) to store in the model (default: keep the scoring default)
+  --max-fpr <r>     Share of human runs allowed to score "high" (default 0.01)
+  --json            Print the full calibration as JSON instead of tables`
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      labels: { type: "string" },
+      out: { type: "string" },
+      prior: { type: "string" },
+      "max-fpr": { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+  if (values.help || !positionals.length) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  const labels = values.labels ? JSON.parse(readFileSync(values.labels, "utf8")) as Record<string, Label> : {}
+  const runs: LabeledRun[] = []
+  for (const file of positionals) {
+    const input = JSON.parse(readFileSync(file, "utf8"))
+    if (Array.isArray(input?.events)) {
+      const run = recordingRun(file, parseRecording(input), labels)
+      if (run) runs.push(run)
+      else console.warn(`${file}: skipped unlabeled recording`)
+      continue
+    }
+    const parsed = parseRuns(input, labels)
+    runs.push(...parsed.runs)
+    if (parsed.skipped.length) console.warn(`${file}: skipped unlabeled or empty runs: ${parsed.skipped.join(", ")}`)
+  }
+  const bots = runs.filter(r => r.label === "bot").length
+  if (!bots || bots === runs.length) {
+    console.error(`Need both human and bot runs (got ${runs.length - bots} human, ${bots} bot)`)
+    process.exit(1)
+  }
+
+  const result = calibrate(runs, {
+    prior: values.prior !== undefined ? Number(values.prior) : undefined,
+    maxFpr: values["max-fpr"] !== undefined ? Number(values["max-fpr"]) : undefined,
+  })
+
+  if (values.json) console.log(JSON.stringify(result, null, 2))
+  else printReport(result, runs.length)
+
+  if (values.out) {
+    writeFileSync(values.out, JSON.stringify(result.config, null, 2) + "\n")
+    console.log(`\nWrote ${values.out}`)
+  }
+}
+
+// Input recordings count as runs with only their probe and behavioral signals.
+function recordingRun(file: string, recording: InputRecording, labels: Record<string, Label>): LabeledRun | null {
+  const scenario = basename(file, ".json")
+  const label = recording.label ?? labels[scenario]
+  if (!label) return null
+  const { probe, behavior } = replayRecording(recording)
+  return { scenario, label, signals: [...probe, ...behavior] }
+}
+
+function printReport({ stats, scored, roc, auc, confusion, config }: ReturnType<typeof calibrate>, total: number): void {
+  const pct = (n: number) => `${(n * 100).toFixed(0)}%`.padStart(5)
+  console.log(`Runs: ${total} (${scored.filter(r => r.label === "human").length} human, ${scored.filter(r => r.label === "bot").length} bot)`)
+  if (total < 30) console.log("Warning: fewer than 30 runs; fitted numbers are in-sample and will be noisy.")
+
+  console.log("\nSignals by separation (suspicious rate on bot vs human runs)")
+  console.log(`${"id".padEnd(28)}${"bot".padStart(6)}${"human".padStart(7)}${"LR+".padStart(9)}${"LR-".padStart(8)}${"weight".padStart(8)}`)
+  for (const s of stats) {
+    console.log(`${s.id.padEnd(28)}${pct(s.botRate).padStart(6)}${pct(s.humanRate).padStart(7)}${s.likelihood.suspicious.toFixed(2).padStart(9)}${s.likelihood.clean.toFixed(2).padStart(8)}${s.weight.toFixed(1).padStart(8)}`)
+  }
+
+  const t = config.scoring?.thresholds
+  console.log(`\nThresholds: medium >= ${t?.medium}, high >= ${t?.high}`)
+  console.log("\nConfusion matrix (rows: label, columns: level)")
+  console.log(`${"".padEnd(8)}${"low".padStart(6)}${"medium".padStart(8)}${"high".padStart(6)}`)
+  for (const label of ["human", "bot"] as const) {
+    const row = confusion[label]
+    console.log(`${label.padEnd(8)}${String(row.low).padStart(6)}${String(row.medium).padStart(8)}${String(row.high).padStart(6)}`)
+  }
+
+  console.log(`\nROC (AUC ${Number.isNaN(auc) ? "n/a" : auc.toFixed(3)})`)
+  console.log(`${"threshold".padStart(10)}${"TPR".padStart(7)}${"FPR".padStart(7)}`)
+  roc.forEach(p => console.log(`${p.threshold.toFixed(3).padStart(10)}${pct(p.tpr).padStart(7)}${pct(p.fpr).padStart(7)}`))
+
+  const misses = scored.filter(r => (r.label === "bot") !== (r.level !== "low"))
+  if (misses.length) {
+    console.log("\nMisclassified runs")
+    misses.forEach(r => console.log(`  ${r.scenario} (${r.label}) -> ${r.level}, P(bot)=${r.probability}`))
+  }
+}
+
+main()
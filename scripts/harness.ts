@@ -0,0 +1,145 @@
+import { spawn } from "child_process"
+import { randomBytes } from "crypto"
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs"
+import { join } from "path"
+import { parseArgs } from "util"
+import { diffAgainst, toJUnit, type HarnessReport } from "./harness/report"
+import { runScenario, type ScenarioResult } from "./harness/runner"
+import { SCENARIOS } from "./harness/scenarios"
+
+const USAGE = `Usage: npm run harness -- [options]
+
+Runs the scenarios in scripts/harness/scenarios.ts against a local build and checks each verdict.
+
+Options:
+  --url <url>          Test an already running server instead of starting one
+  --port <n>           Port for the server started by the harness (default 3100)
+  --dev                Start \`next dev\` instead of \`next start\` (no build needed)
+  --only <names>       Comma-separated scenario names to run
+  --out <dir>          Where to write report.json and junit.xml (default harness-report)
+  --baseline <file>    Earlier report to diff against (default scripts/harness/baseline.json)
+  --update-baseline    Save this run as the new baseline instead of failing on changes`
+
+const DEFAULT_BASELINE = "scripts/harness/baseline.json"
+
+async function startServer(port: number, dev: boolean): Promise<{ url: string, stop: () => Promise<void> }> {
+  const command = dev ? "dev" : "start"
+  // `next start` refuses to sign verdicts without a secret; a throwaway one is enough here.
+  const env = { ...process.env, VERDICT_SECRET: process.env.VERDICT_SECRET || randomBytes(32).toString("hex") }
+  const child = spawn(process.execPath, [require.resolve("next/dist/bin/next"), command, "-p", String(port)], {
+    env,
+    stdio: ["ignore", "pipe", "pipe"],
+  })
+  let log = ""
+  const capture = (chunk: Buffer) => { log = (log + chunk.toString()).slice(-4000) }
+  child.stdout.on("data", capture)
+  child.stderr.on("data", capture)
+  const stop = () => new Promise<void>(resolve => {
+    if (child.exitCode !== null) return resolve()
+    child.once("exit", () => resolve())
+    child.kill("SIGTERM")
+  })
+
+  const url = `http://localhost:${port}`
+  const deadline = Date.now() + (dev ? 120_000 : 60_000)
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      const hint = dev ? "" : "\n(run `npm run build` first, or pass --dev)"
+      throw new Error(`next ${command} exited with ${child.exitCode}:\n${log}${hint}`)
+    }
+    try {
+      if ((await fetch(`${url}/api/detector-config`)).ok) return { url, stop }
+    } catch {
+      // not listening yet
+    }
+    await new Promise(r => setTimeout(r, 500))
+  }
+  await stop()
+  throw new Error(`next ${command} did not respond on ${url}:\n${log}`)
+}
+
+function loadBaseline(file: string): Map<string, ScenarioResult> {
+  if (!existsSync(file)) return new Map()
+  const report = JSON.parse(readFileSync(file, "utf8")) as HarnessReport
+  return new Map(report.results.map(r => [r.scenario, r]))
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      url: { type: "string" },
+      port: { type: "string", default: "3100" },
+      dev: { type: "boolean", default: false },
+      only: { type: "string" },
+      out: { type: "string", default: "harness-report" },
+      baseline: { type: "string", default: DEFAULT_BASELINE },
+      "update-baseline": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+
+  const only = values.only?.split(",").map(s => s.trim())
+  const scenarios = only ? SCENARIOS.filter(s => only.includes(s.name)) : SCENARIOS
+  const unknown = only?.filter(name => !SCENARIOS.some(s => s.name === name)) ?? []
+  if (unknown.length) throw new Error(`Unknown scenarios: ${unknown.join(", ")}`)
+
+  const baseline = loadBaseline(values.baseline)
+  const server = values.url ? { url: values.url.replace(/\/$/, ""), stop: async () => {} } : await startServer(Number(values.port), values.dev)
+  const report: HarnessReport = { target: server.url, startedAt: new Date().toISOString(), passed: true, results: [] }
+
+  try {
+    for (const scenario of scenarios) {
+      process.stdout.write(`${scenario.name} ... `)
+      const result = await runScenario(scenario, server.url).catch((err): ScenarioResult => ({
+        scenario: scenario.name,
+        label: scenario.label,
+        timestamp: new Date().toISOString(),
+        durationMs: 0,
+        result: { signals: [], error: String(err) },
+        passed: false,
+        failures: [`scenario crashed: ${err instanceof Error ? err.message.split("\n")[0] : err}`],
+      }))
+      if (result.skipped) {
+        report.results.push(result)
+        console.log(`skipped (${result.skipped})`)
+        continue
+      }
+      const previous = baseline.get(scenario.name)
+      const diff = previous && !previous.skipped ? diffAgainst(result, previous) : []
+      const flipped = diff.some(line => line.startsWith("verdict:"))
+      if (flipped && !values["update-baseline"]) {
+        result.failures.push("verdict changed since baseline")
+        result.passed = false
+      }
+      report.results.push(result)
+      console.log(result.passed ? "ok" : "FAILED")
+      for (const f of result.failures) console.log(`    ${f}`)
+      if (diff.length && (!result.passed || values["update-baseline"])) {
+        console.log("    diff vs baseline:")
+        diff.forEach(line => console.log(`      ${line}`))
+      }
+    }
+  } finally {
+    await server.stop()
+  }
+
+  report.passed = report.results.every(r => r.passed)
+  mkdirSync(values.out, { recursive: true })
+  writeFileSync(join(values.out, "report.json"), JSON.stringify(report, null, 2) + "\n")
+  writeFileSync(join(values.out, "junit.xml"), toJUnit(report))
+  if (values["update-baseline"]) writeFileSync(values.baseline, JSON.stringify(report, null, 2) + "\n")
+
+  const failed = report.results.filter(r => !r.passed).length
+  const skipped = report.results.filter(r => r.skipped).length
+  console.log(`\n${report.results.length - failed - skipped}/${report.results.length} scenarios passed${skipped ? `, ${skipped} skipped` : ""}; reports in ${values.out}/`)
+  if (!report.passed) process.exitCode = 1
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 1
+})
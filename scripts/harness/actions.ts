@@ -0,0 +1,42 @@
+import type { Page } from "playwright"
+import type { Action } from "./scenarios"
+
+async function humanMotion(page: Page, moves: number): Promise<void> {
+  for (let i = 0; i < moves; i++) {
+    await page.mouse.move(100 + Math.random() * 300, 100 + Math.random() * 200, { steps: 3 })
+    if (i % 5 === 0) await page.mouse.click(120 + Math.random() * 200, 120 + Math.random() * 100)
+    await page.waitForTimeout(40 + Math.random() * 80)
+  }
+}
+
+async function regularMotion(page: Page, events: number, intervalMs: number): Promise<void> {
+  for (let i = 0; i < events; i++) {
+    await page.mouse.move(10 + (i % 50) * 5, 10 + Math.floor(i / 50) * 5)
+    await page.waitForTimeout(intervalMs)
+  }
+}
+
+export async function perform(page: Page, action: Action): Promise<void> {
+  switch (action.type) {
+    case "humanMotion":
+      return humanMotion(page, action.moves ?? 30)
+    case "regularMotion":
+      return regularMotion(page, action.events ?? 100, action.intervalMs ?? 20)
+    case "type":
+      await page.keyboard.type(action.text, { delay: action.delay ?? 50 })
+      return
+    case "tap":
+      return page.touchscreen.tap(action.x, action.y)
+    case "dispatch":
+      await page.evaluate(({ event, target }) => {
+        (target === "document" ? document : window).dispatchEvent(new Event(event))
+      }, { event: action.event, target: action.target ?? "window" })
+      return
+    case "resize":
+      return page.setViewportSize({ width: action.width, height: action.height })
+    case "probe":
+      return page.getByRole("button", { name: /activity check/i }).click()
+    case "wait":
+      return page.waitForTimeout(action.ms)
+  }
+}
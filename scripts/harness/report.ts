@@ -0,0 +1,48 @@
+import { suspiciousIds, type ScenarioResult } from "./runner"
+
+export type HarnessReport = {
+  target: string
+  startedAt: string
+  passed: boolean
+  results: ScenarioResult[]
+}
+
+// Lines describing how a run moved away from an earlier report for the same scenario.
+export function diffAgainst(result: ScenarioResult, previous: ScenarioResult): string[] {
+  const lines: string[] = []
+  const before = previous.result.verdict?.summary
+  const after = result.result.verdict?.summary
+  if (before?.level !== after?.level) {
+    lines.push(`verdict: ${before?.level ?? "none"} (P=${before?.probability ?? "-"}) -> ${after?.level ?? "none"} (P=${after?.probability ?? "-"})`)
+  }
+  const was = suspiciousIds(previous.result).suspicious
+  const now = suspiciousIds(result.result).suspicious
+  for (const id of [...was].filter(id => !now.has(id)).sort()) lines.push(`- ${id}`)
+  for (const id of [...now].filter(id => !was.has(id)).sort()) lines.push(`+ ${id}`)
+  return lines
+}
+
+const escapeXml = (s: string) => s.replace(/[<>&"']/g, c => `&${{ "<": "lt", ">": "gt", "&": "amp", "\"": "quot", "'": "apos" }[c]};`)
+
+export function toJUnit(report: HarnessReport): string {
+  const failures = report.results.filter(r => !r.passed).length
+  const skipped = report.results.filter(r => r.skipped).length
+  const seconds = (ms: number) => (ms / 1000).toFixed(3)
+  const total = report.results.reduce((a, r) => a + r.durationMs, 0)
+  const cases = report.results.map(r => {
+    const summary = r.result.verdict?.summary
+    const out = `level=${summary?.level ?? "none"} probability=${summary?.probability ?? "-"} suspicious=${[...suspiciousIds(r.result).suspicious].join(",")}`
+    const failure = r.skipped ? `\n      <skipped message="${escapeXml(r.skipped)}"/>`
+      : r.passed ? "" : `\n      <failure message="${escapeXml(r.failures[0])}">${escapeXml(r.failures.join("\n"))}</failure>`
+    return `    <testcase classname="bot-detection.${r.label}" name="${escapeXml(r.scenario)}" time="${seconds(r.durationMs)}">${failure}
+      <system-out>${escapeXml(out)}</system-out>
+    </testcase>`
+  })
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="${report.results.length}" failures="${failures}" skipped="${skipped}" time="${seconds(total)}">
+  <testsuite name="bot-detection" tests="${report.results.length}" failures="${failures}" skipped="${skipped}" time="${seconds(total)}" timestamp="${report.startedAt}">
+${cases.join("\n")}
+  </testsuite>
+</testsuites>
+`
+}
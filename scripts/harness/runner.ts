@@ -0,0 +1,137 @@
+import { chromium, devices } from "playwright"
+import type { Summary } from "../../src/app/lib/scoring"
+import type { SealedEnvelope } from "../../src/app/lib/session"
+import { baseSignalId, type SignalResult } from "../../src/app/lib/signals"
+import type { VerdictResponse } from "../../src/app/lib/verdict"
+import type { Label } from "../lib/calibration"
+import { perform } from "./actions"
+import type { Scenario } from "./scenarios"
+
+export type Diagnostics = {
+  summary?: Summary | null
+  signals: SignalResult[]
+  verdict?: VerdictResponse | null
+  error?: string
+}
+
+export type ScenarioResult = {
+  scenario: string
+  label: Label
+  timestamp: string
+  durationMs: number
+  result: Diagnostics
+  passed: boolean
+  failures: string[]
+  // Why the scenario could not run against this target; a skipped scenario passes.
+  skipped?: string
+}
+
+const OVERLAY_TIMEOUT_MS = 5000
+
+const LEVELS = ["low", "medium", "high"] as const
+
+// The page only renders its diagnostics in debug builds, so the client signals are
+// read from the last sealed payload it posted instead.
+function sentSignals(body: string | null): SignalResult[] {
+  try {
+    const { payload } = JSON.parse(body ?? "") as SealedEnvelope
+    return (JSON.parse(payload) as { results?: SignalResult[] }).results ?? []
+  } catch {
+    return []
+  }
+}
+
+// Client and server copies of a signal are merged by base id; any suspicious copy wins.
+export function suspiciousIds(diagnostics: Diagnostics): { suspicious: Set<string>, clean: Set<string> } {
+  const suspicious = new Set<string>()
+  const seen = new Set<string>()
+  for (const s of [...diagnostics.signals, ...(diagnostics.verdict?.results ?? [])]) {
+    const id = baseSignalId(s.id)
+    seen.add(id)
+    if (s.suspicious) suspicious.add(id)
+  }
+  return { suspicious, clean: new Set([...seen].filter(id => !suspicious.has(id))) }
+}
+
+export function checkExpectations(scenario: Scenario, diagnostics: Diagnostics): string[] {
+  const failures: string[] = []
+  const level = diagnostics.verdict?.summary.level
+  const { min, max } = scenario.expect.level
+  if (diagnostics.error) failures.push(`diagnostics unavailable: ${diagnostics.error}`)
+  if (!level) failures.push("no verdict received from /api/verdict")
+  else {
+    if (min && LEVELS.indexOf(level) < LEVELS.indexOf(min)) failures.push(`level: expected >= ${min}, got ${level}`)
+    if (max && LEVELS.indexOf(level) > LEVELS.indexOf(max)) failures.push(`level: expected <= ${max}, got ${level}`)
+  }
+  const { suspicious, clean } = suspiciousIds(diagnostics)
+  for (const id of scenario.expect.suspicious ?? []) {
+    if (!suspicious.has(id)) failures.push(`signal ${id}: expected suspicious, got ${clean.has(id) ? "clean" : "missing"}`)
+  }
+  for (const id of scenario.expect.clean ?? []) {
+    if (!clean.has(id)) failures.push(`signal ${id}: expected clean, got ${suspicious.has(id) ? "suspicious" : "missing"}`)
+  }
+  return failures
+}
+
+function skip(scenario: Scenario, started: number, reason: string): ScenarioResult {
+  return {
+    scenario: scenario.name,
+    label: scenario.label,
+    timestamp: new Date(started).toISOString(),
+    durationMs: Date.now() - started,
+    result: { signals: [] },
+    passed: true,
+    failures: [],
+    skipped: reason,
+  }
+}
+
+// Headed Chromium on Linux needs an X or Wayland server; CI runners have neither.
+const hasDisplay = () => process.platform !== "linux" || Boolean(process.env.DISPLAY || process.env.WAYLAND_DISPLAY)
+
+export async function runScenario(scenario: Scenario, baseUrl: string): Promise<ScenarioResult> {
+  const started = Date.now()
+  if (scenario.launchOptions?.headless === false && !hasDisplay()) return skip(scenario, started, "no display; run it under xvfb-run")
+  const browser = await chromium.launch({ headless: true, ...scenario.launchOptions })
+  try {
+    const context = await browser.newContext({
+      ...(scenario.device ? devices[scenario.device] : {}),
+      ...scenario.contextOptions,
+    })
+    const page = await context.newPage()
+    if (scenario.initScript) await page.addInitScript(scenario.initScript)
+
+    // The page posts for a verdict after static detection and after each probe; keep the latest.
+    let verdict = null as VerdictResponse | null
+    let signals: SignalResult[] = []
+    const pending: Promise<void>[] = []
+    page.on("response", res => {
+      if (!res.url().endsWith("/api/verdict") || !res.ok()) return
+      signals = sentSignals(res.request().postData())
+      pending.push(res.json().then(v => { verdict = v as VerdictResponse }, () => {}))
+    })
+
+    await page.goto(baseUrl + (scenario.query ?? ""), { waitUntil: "domcontentloaded" })
+    if (scenario.overrides && !await page.waitForSelector("[data-bot-overrides]", { timeout: OVERLAY_TIMEOUT_MS }).catch(() => null)) {
+      return skip(scenario, started, "debug overrides are disabled in this build")
+    }
+    for (const action of scenario.actions ?? []) await perform(page, action)
+    await page.waitForTimeout(scenario.waitAfter ?? 5000)
+    await Promise.all(pending)
+
+    const result: Diagnostics = { summary: verdict?.summary ?? null, signals, verdict }
+    if (!signals.length) result.error = "no sealed payload captured"
+    const failures = checkExpectations(scenario, result)
+    return {
+      scenario: scenario.name,
+      label: scenario.label,
+      timestamp: new Date(started).toISOString(),
+      durationMs: Date.now() - started,
+      result,
+      passed: failures.length === 0,
+      failures,
+    }
+  } finally {
+    await browser.close()
+  }
+}
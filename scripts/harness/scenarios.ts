@@ -0,0 +1,141 @@
+import type { BrowserContextOptions, LaunchOptions } from "playwright"
+import type { RiskLevel } from "../../src/app/lib/scoring"
+import type { Label } from "../lib/calibration"
+
+export type Action =
+  | { type: "humanMotion", moves?: number }
+  | { type: "regularMotion", events?: number, intervalMs?: number }
+  | { type: "type", text: string, delay?: number }
+  | { type: "tap", x: number, y: number }
+  | { type: "dispatch", event: string, target?: "window" | "document" }
+  | { type: "resize", width: number, height: number }
+  | { type: "probe" }
+  | { type: "wait", ms: number }
+
+export type Expectation = {
+  // Inclusive range for the server verdict level.
+  level: { min?: RiskLevel, max?: RiskLevel }
+  // Signal ids (probe suffixes stripped) that must come back suspicious.
+  suspicious?: string[]
+  // Signal ids that must come back clean.
+  clean?: string[]
+}
+
+export type Scenario = {
+  name: string
+  label: Label
+  launchOptions?: LaunchOptions
+  contextOptions?: BrowserContextOptions
+  // Name of a Playwright device descriptor, merged under `contextOptions`.
+  device?: string
+  initScript?: string
+  query?: string
+  // Relies on debug overrides, which only a dev server or a build with
+  // NEXT_PUBLIC_BOT_OVERRIDES=1 accepts; skipped against any other build.
+  overrides?: boolean
+  actions?: Action[]
+  waitAfter?: number
+  expect: Expectation
+}
+
+export const SCENARIOS: Scenario[] = [
+  {
+    name: "human-headful-baseline",
+    label: "human",
+    launchOptions: { headless: false },
+    actions: [{ type: "humanMotion", moves: 30 }, { type: "type", text: "hello test", delay: 50 }],
+    waitAfter: 3000,
+    expect: { level: { max: "medium" }, clean: ["webdriver", "automation-globals"] },
+  },
+  {
+    name: "headless-default-noinput",
+    label: "bot",
+    waitAfter: 6000,
+    expect: { level: { min: "medium" } },
+  },
+  {
+    name: "headless-force-webdriver",
+    label: "bot",
+    initScript: "Object.defineProperty(navigator, 'webdriver', { get: () => true }); window.__AUTOMATION_INJECTED__ = true;",
+    waitAfter: 6000,
+    expect: { level: { min: "high" }, suspicious: ["webdriver", "nav-lies"] },
+  },
+  {
+    name: "headless-hidden-webdriver",
+    label: "bot",
+    initScript: "Object.defineProperty(navigator, 'webdriver', { get: () => false });",
+    waitAfter: 6000,
+    expect: { level: { min: "medium" }, suspicious: ["nav-lies"], clean: ["webdriver"] },
+  },
+  {
+    name: "headless-main-thread-spoof",
+    label: "bot",
+    initScript: "Object.defineProperty(Navigator.prototype, 'hardwareConcurrency', { get: () => 16 });",
+    waitAfter: 6000,
+    expect: { level: { min: "medium" }, suspicious: ["cross-context"] },
+  },
+  {
+    name: "headless-force-automation",
+    label: "bot",
+    query: "?forceAutomation=true",
+    overrides: true,
+    waitAfter: 6000,
+    expect: { level: { min: "high" }, suspicious: ["webdriver", "automation-globals"] },
+  },
+  {
+    name: "headless-ua-spoof",
+    label: "bot",
+    contextOptions: { userAgent: "HeadlessChrome/1.0 (automated)" },
+    waitAfter: 6000,
+    expect: { level: { min: "medium" }, suspicious: ["ua-headless"] },
+  },
+  {
+    name: "headless-perfect-regular-motion",
+    label: "bot",
+    actions: [{ type: "probe" }, { type: "regularMotion", events: 200, intervalMs: 12 }],
+    waitAfter: 6000,
+    expect: { level: { min: "medium" }, suspicious: ["traj-uniform-steps"] },
+  },
+  {
+    name: "headless-automation-globals",
+    label: "bot",
+    initScript: `
+      window.__nightmare = true;
+      window.__selenium_unwrapped = true;
+      window.__driver_evaluate = true;
+      try { Object.defineProperty(navigator, 'webdriver', { get: () => true }); } catch(e) {}
+    `,
+    waitAfter: 6000,
+    expect: { level: { min: "high" }, suspicious: ["automation-globals"] },
+  },
+  {
+    name: "headless-late-binding",
+    label: "bot",
+    initScript: "setTimeout(() => { window.__playwright__binding__ = () => {} }, 1500);",
+    // The binding lands after the first verdict; the probe sends the next one.
+    actions: [{ type: "wait", ms: 2500 }, { type: "probe" }],
+    waitAfter: 8000,
+    expect: { level: { min: "high" }, suspicious: ["late-globals"] },
+  },
+  {
+    name: "headless-rapid-resize-blur",
+    label: "bot",
+    actions: [
+      { type: "probe" },
+      { type: "resize", width: 300, height: 300 },
+      { type: "resize", width: 1200, height: 800 },
+      { type: "dispatch", event: "blur" },
+      { type: "dispatch", event: "focus" },
+    ],
+    waitAfter: 8000,
+    expect: { level: { min: "medium" }, suspicious: ["synthetic-untrusted"] },
+  },
+  {
+    name: "mobile-emulation-touch",
+    label: "bot",
+    device: "iPhone 13",
+    actions: [{ type: "tap", x: 100, y: 200 }, { type: "dispatch", event: "gesturestart" }],
+    waitAfter: 4000,
+    expect: { level: { min: "medium" } },
+  },
+]
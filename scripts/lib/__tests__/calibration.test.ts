@@ -0,0 +1,36 @@
+import { pickThresholds, rocAuc, type ScoredRun } from "../calibration"
+
+const run = (label: ScoredRun["label"], probability: number, i: number): ScoredRun => ({ scenario: `${label}-${i}`, label, probability, level: "low" })
+const runs = (label: ScoredRun["label"], probabilities: number[]) => probabilities.map((p, i) => run(label, p, i))
+
+describe("pickThresholds", () => {
+  it("puts high above every human and medium at the best separation", () => {
+    const scored = [...runs("human", [0.05, 0.1, 0.2, 0.7]), ...runs("bot", [0.3, 0.8, 0.95])]
+    expect(pickThresholds(scored, 0)).toEqual({ medium: 0.25, high: 0.75 })
+  })
+
+  it("lets the allowed share of humans into high", () => {
+    const humans = Array.from({ length: 10 }, (_, i) => i / 20)
+    const scored = [...runs("human", humans), ...runs("bot", [0.5, 0.9])]
+    expect(pickThresholds(scored, 0.1).high).toBe(0.425)
+  })
+
+  it("puts both cuts between the classes when they separate", () => {
+    const scored = [...runs("human", [0.05, 0.1, 0.2, 0.3]), ...runs("bot", [0.6, 0.8, 0.95])]
+    expect(pickThresholds(scored, 0)).toEqual({ medium: 0.45, high: 0.45 })
+  })
+
+  it("keeps medium at or below high", () => {
+    const scored = [...runs("human", [0.5, 0.9]), ...runs("bot", [0.4, 0.8])]
+    const { medium, high } = pickThresholds(scored, 0)
+    expect(medium).toBeLessThanOrEqual(high)
+    expect(high).toBeLessThanOrEqual(1)
+  })
+})
+
+describe("rocAuc", () => {
+  it("is 1 for perfect separation and 0.5 for ties", () => {
+    expect(rocAuc([...runs("human", [0.1, 0.2]), ...runs("bot", [0.8, 0.9])])).toBe(1)
+    expect(rocAuc([...runs("human", [0.5]), ...runs("bot", [0.5])])).toBe(0.5)
+  })
+})
@@ -0,0 +1,198 @@
+import type { DetectorConfig } from "../../src/app/lib/detectorRegistry"
+import { summarize, type RiskLevel, type ScoringModel } from "../../src/app/lib/scoring"
+import { baseSignalId, type SignalResult } from "../../src/app/lib/signals"
+
+export type Label = "human" | "bot"
+
+export type LabeledRun = {
+  scenario: string
+  label: Label
+  signals: SignalResult[]
+}
+
+export type SignalStats = {
+  id: string
+  name: string
+  botRuns: number
+  humanRuns: number
+  botRate: number
+  humanRate: number
+  likelihood: { suspicious: number, clean: number }
+  weight: number
+}
+
+export type ScoredRun = {
+  scenario: string
+  label: Label
+  probability: number
+  level: RiskLevel
+}
+
+export type RocPoint = { threshold: number, tpr: number, fpr: number }
+
+export type Calibration = {
+  stats: SignalStats[]
+  config: DetectorConfig
+  scored: ScoredRun[]
+  roc: RocPoint[]
+  auc: number
+  confusion: Record<Label, Record<RiskLevel, number>>
+}
+
+export type CalibrationOptions = {
+  prior?: number
+  // Share of human runs allowed to land in "high".
+  maxFpr?: number
+}
+
+const MAX_WEIGHT = 5
+
+// Accepts the `{ results: [{ scenario, label?, result: { signals } }] }` files written by
+// the scenario runners. `labels` maps scenario names to labels for files that carry none.
+export function parseRuns(input: unknown, labels: Record<string, Label> = {}): { runs: LabeledRun[], skipped: string[] } {
+  const list = (input as { results?: unknown })?.results
+  if (!Array.isArray(list)) throw new Error("expected a `results` array")
+  const runs: LabeledRun[] = []
+  const skipped: string[] = []
+  for (const entry of list) {
+    const scenario = String(entry?.scenario ?? "")
+    const label = entry?.label === "human" || entry?.label === "bot" ? entry.label as Label : labels[scenario]
+    const signals = entry?.result?.signals
+    if (!label || !Array.isArray(signals) || !signals.length) {
+      skipped.push(scenario)
+      continue
+    }
+    runs.push({ scenario, label, signals: dedupe(signals) })
+  }
+  return { runs, skipped }
+}
+
+// Probe results repeat per run; a signal counts as suspicious if any copy was.
+function dedupe(signals: SignalResult[]): SignalResult[] {
+  const byId = new Map<string, SignalResult>()
+  for (const s of signals) {
+    const id = baseSignalId(s.id)
+    const prev = byId.get(id)
+    if (!prev || (s.suspicious && !prev.suspicious)) byId.set(id, { ...s, id })
+  }
+  return [...byId.values()]
+}
+
+// Naive-Bayes likelihood ratios with Laplace smoothing, so a signal never seen
+// on one side still gets a finite ratio.
+export function signalStats(runs: LabeledRun[]): SignalStats[] {
+  const counts = new Map<string, { name: string, bot: number, human: number, botHits: number, humanHits: number }>()
+  for (const run of runs) {
+    for (const s of run.signals) {
+      const c = counts.get(s.id) ?? { name: s.name, bot: 0, human: 0, botHits: 0, humanHits: 0 }
+      c[run.label]++
+      if (s.suspicious) c[run.label === "bot" ? "botHits" : "humanHits"]++
+      counts.set(s.id, c)
+    }
+  }
+  return [...counts].map(([id, c]) => {
+    const pb = (c.botHits + 1) / (c.bot + 2)
+    const ph = (c.humanHits + 1) / (c.human + 2)
+    const suspicious = pb / ph
+    return {
+      id,
+      name: c.name,
+      botRuns: c.bot,
+      humanRuns: c.human,
+      botRate: c.bot ? c.botHits / c.bot : 0,
+      humanRate: c.human ? c.humanHits / c.human : 0,
+      likelihood: { suspicious: round(suspicious, 3), clean: round((1 - pb) / (1 - ph), 3) },
+      weight: round(Math.min(MAX_WEIGHT, Math.max(0, Math.log2(suspicious))), 1),
+    }
+  }).sort((a, b) => Math.abs(b.botRate - b.humanRate) - Math.abs(a.botRate - a.humanRate))
+}
+
+export function rocCurve(scored: ScoredRun[]): RocPoint[] {
+  const bots = scored.filter(r => r.label === "bot")
+  const humans = scored.filter(r => r.label === "human")
+  const thresholds = [...new Set(scored.map(r => r.probability))].sort((a, b) => b - a)
+  return [{ threshold: 1, tpr: 0, fpr: 0 }, ...thresholds.map(t => ({
+    threshold: t,
+    tpr: bots.length ? bots.filter(r => r.probability >= t).length / bots.length : 0,
+    fpr: humans.length ? humans.filter(r => r.probability >= t).length / humans.length : 0,
+  }))]
+}
+
+// Probability that a random bot run scores above a random human run.
+export function rocAuc(scored: ScoredRun[]): number {
+  const bots = scored.filter(r => r.label === "bot")
+  const humans = scored.filter(r => r.label === "human")
+  if (!bots.length || !humans.length) return NaN
+  let wins = 0
+  for (const b of bots) {
+    for (const h of humans) wins += b.probability > h.probability ? 1 : b.probability === h.probability ? 0.5 : 0
+  }
+  return wins / (bots.length * humans.length)
+}
+
+// Thresholds sit halfway between neighbouring observed scores so that runs
+// scoring exactly on a cut are not decided by rounding.
+export function pickThresholds(scored: ScoredRun[], maxFpr = 0.01): { medium: number, high: number } {
+  const values = [...new Set(scored.map(r => r.probability))].sort((a, b) => a - b)
+  const cutAbove = (p: number) => {
+    const next = values.find(v => v > p)
+    return round(next === undefined ? (p + 1) / 2 : (p + next) / 2, 3)
+  }
+  const cutBelow = (p: number) => {
+    const prev = [...values].reverse().find(v => v < p)
+    return round(prev === undefined ? p / 2 : (p + prev) / 2, 3)
+  }
+
+  const humans = scored.filter(r => r.label === "human").map(r => r.probability).sort((a, b) => b - a)
+  const allowed = Math.floor(maxFpr * humans.length)
+  const high = humans.length > allowed ? cutAbove(humans[allowed]) : cutBelow(values[0] ?? 0.5)
+
+  let best = { j: -Infinity, t: high }
+  for (const p of rocCurve(scored).slice(1)) {
+    if (p.tpr - p.fpr > best.j) best = { j: p.tpr - p.fpr, t: p.threshold }
+  }
+  const medium = Math.min(high, cutBelow(best.t))
+  return { medium: Math.max(0.001, medium), high: Math.min(1, Math.max(0.001, high)) }
+}
+
+export function calibrate(runs: LabeledRun[], { prior, maxFpr }: CalibrationOptions = {}): Calibration {
+  const stats = signalStats(runs)
+  const weights = new Map(stats.map(s => [s.id, s.weight]))
+  const model: ScoringModel = {
+    strategy: "bayes",
+    ...(prior !== undefined ? { prior } : {}),
+    likelihoods: Object.fromEntries(stats.map(s => [s.id, s.likelihood])),
+  }
+
+  const reweighted = runs.map(r => ({ ...r, signals: r.signals.map(s => ({ ...s, weight: weights.get(s.id) ?? s.weight })) }))
+  const probabilities = reweighted.map(r => summarize(r.signals, model))
+  const unlevelled = reweighted.map((r, i) => ({ scenario: r.scenario, label: r.label, probability: probabilities[i].probability, level: probabilities[i].level }))
+  const thresholds = pickThresholds(unlevelled, maxFpr)
+  const fitted: ScoringModel = { ...model, thresholds }
+
+  const scored = reweighted.map(r => {
+    const s = summarize(r.signals, fitted)
+    return { scenario: r.scenario, label: r.label, probability: s.probability, level: s.level }
+  })
+  const confusion: Calibration["confusion"] = {
+    human: { low: 0, medium: 0, high: 0 },
+    bot: { low: 0, medium: 0, high: 0 },
+  }
+  scored.forEach(r => confusion[r.label][r.level]++)
+
+  return {
+    stats,
+    config: {
+      detectors: Object.fromEntries(stats.map(s => [s.id, { weight: s.weight }])),
+      scoring: fitted,
+    },
+    scored,
+    roc: rocCurve(scored),
+    auc: rocAuc(scored),
+    confusion,
+  }
+}
+
+function round(n: number, digits: number): number {
+  return +n.toFixed(digits)
+}
@@ -0,0 +1,82 @@
+import { readFileSync } from "fs"
+import { parseArgs } from "util"
+import { detectorRegistry, replaySnapshot } from "../src/app/lib/botDetector"
+import { parseDetectorConfig } from "../src/app/lib/detectorRegistry"
+import { parseSnapshot } from "../src/app/lib/env"
+import { parseRecording, replayRecording, type InputRecording } from "../src/app/lib/recording"
+import { setScoringModel } from "../src/app/lib/scoring"
+import type { SignalResult } from "../src/app/lib/signals"
+
+const USAGE = `Usage: npm run replay -- [options] <snapshot.json | recording.json>
+
+Runs the current static detectors against an environment snapshot, or the probe and
+behavioral analyzers against an input recording, both downloaded from the demo page.
+
+Options:
+  --config <file>   Detector config to apply (same format as DETECTOR_CONFIG_PATH)
+  --json            Print results and summary as JSON`
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE)
+    process.exitCode = values.help ? 0 : 1
+    return
+  }
+
+  const input = JSON.parse(readFileSync(positionals[0], "utf8"))
+  if (Array.isArray(input?.events)) {
+    replayInput(parseRecording(input), values.json)
+    return
+  }
+
+  const snapshot = parseSnapshot(input)
+  if (values.config) {
+    const config = parseDetectorConfig(JSON.parse(readFileSync(values.config, "utf8")))
+    detectorRegistry.configure(config)
+    setScoringModel(config.scoring)
+  }
+
+  const { results, summary } = await replaySnapshot(snapshot)
+  if (values.json) {
+    console.log(JSON.stringify({ summary, results }, null, 2))
+    return
+  }
+
+  const nav = "value" in snapshot.facts.navigator ? snapshot.facts.navigator.value.userAgent : "unknown"
+  console.log(`Snapshot from ${new Date(snapshot.capturedAt).toISOString()}${snapshot.url ? ` at ${snapshot.url}` : ""}`)
+  console.log(`UA: ${nav}\n`)
+  printResults(results)
+  console.log(`\nLevel: ${summary.level}, P(bot)=${summary.probability}, score ${summary.score}/${summary.max}${summary.forcedBy ? `, forced by ${summary.forcedBy.join(",")}` : ""}`)
+}
+
+function printResults(results: SignalResult[]): void {
+  for (const r of results) {
+    console.log(`${r.suspicious ? "✗" : "✓"} ${r.id.padEnd(18)} w=${String(r.weight).padEnd(5)} ${r.details ?? ""}`)
+  }
+}
+
+function replayInput(recording: InputRecording, json: boolean): void {
+  const analysis = replayRecording(recording)
+  if (json) {
+    console.log(JSON.stringify(analysis, null, 2))
+    return
+  }
+  console.log(`Recording from ${new Date(recording.startedAt).toISOString()}: ${recording.events.length} events over ${recording.durationMs}ms${recording.label ? `, labeled ${recording.label}` : ""}`)
+  console.log(`UA: ${recording.userAgent ?? "unknown"}\n`)
+  printResults(analysis.probe)
+  console.log()
+  printResults(analysis.behavior)
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 1
+})
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { clientKey, issueChallenge, type ChallengeKind } from "../../lib/challenge"
+
+export const dynamic = "force-dynamic"
+
+const KINDS: ChallengeKind[] = ["pow", "slider"]
+
+export async function POST(request: Request) {
+  let body: { nonce?: unknown, kind?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 })
+  }
+
+  const kind = KINDS.find(k => k === body?.kind)
+  if (!kind || typeof body.nonce !== "string") return NextResponse.json({ error: "invalid challenge request" }, { status: 400 })
+
+  const challenge = issueChallenge(body.nonce, clientKey(request.headers), kind)
+  if ("error" in challenge) return NextResponse.json(challenge, { status: challenge.error === "bad-nonce" ? 401 : 409 })
+  return NextResponse.json(challenge, { headers: { "Cache-Control": "no-store" } })
+}
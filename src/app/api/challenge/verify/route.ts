@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { verifyChallenge } from "../../../lib/challenge"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(request: Request) {
+  let body: { nonce?: unknown, id?: unknown, solution?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 })
+  }
+
+  const outcome = verifyChallenge(body?.nonce, body?.id, body?.solution)
+  return NextResponse.json(outcome, { headers: { "Cache-Control": "no-store" } })
+}
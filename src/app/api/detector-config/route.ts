@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server"
+import { loadDetectorConfig } from "../../lib/detectorConfig"
+
+export const dynamic = "force-dynamic"
+
+// Only the per-detector overrides; the scoring model stays on the server with the verdict.
+export async function GET() {
+  const { detectors } = await loadDetectorConfig()
+  return NextResponse.json(detectors ? { detectors } : {}, { headers: { "Cache-Control": "no-store" } })
+}
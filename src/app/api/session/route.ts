@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server"
+import { issueSession } from "../../lib/session"
+
+export const dynamic = "force-dynamic"
+
+export async function POST() {
+  return NextResponse.json(issueSession(), { headers: { "Cache-Control": "no-store" } })
+}
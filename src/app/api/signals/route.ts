@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server"
+import { collectHeaderSignals, parseClientFacts } from "../../lib/headerSignals"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 })
+  }
+
+  const results = collectHeaderSignals(request.headers, parseClientFacts(body))
+  return NextResponse.json({ results }, { headers: { "Cache-Control": "no-store" } })
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { challengeSignal, clientKey, recordVerdict } from "../../lib/challenge"
+import { claimPlatform, hintsFromHeaders } from "../../lib/coherence"
+import { loadDetectorConfig } from "../../lib/detectorConfig"
+import { collectHeaderSignals, parseClientFacts } from "../../lib/headerSignals"
+import { openEnvelope } from "../../lib/session"
+import { parseSignals, rescore, signVerdict, type VerdictResponse } from "../../lib/verdict"
+
+export const dynamic = "force-dynamic"
+
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "invalid JSON" }, { status: 400 })
+  }
+
+  // Only payloads sealed with a session key from /api/session are scored.
+  const envelope = openEnvelope(body)
+  if (!envelope.ok) return NextResponse.json({ error: envelope.error }, { status: 401 })
+
+  const signals = parseSignals(envelope.payload)
+  if (!signals) return NextResponse.json({ error: "invalid signal payload" }, { status: 400 })
+
+  const client = parseClientFacts(envelope.payload)
+  const headerSignals = collectHeaderSignals(request.headers, client)
+  const challenge = challengeSignal(envelope.payload.nonce, clientKey(request.headers))
+  const userAgent = request.headers.get("user-agent") ?? undefined
+  const server = challenge ? [...headerSignals, challenge] : headerSignals
+  // The same evidence the page's baseline uses: an iPad asking for the desktop site
+  // is only told from a Mac by its touch points.
+  const claim = userAgent ? claimPlatform(userAgent, hintsFromHeaders(request.headers), client.maxTouchPoints) : undefined
+  const { results, summary } = rescore(signals, server, await loadDetectorConfig(), claim)
+  recordVerdict(envelope.payload.nonce, summary.probability)
+  const { token, expiresAt } = signVerdict(summary, userAgent)
+  const response: VerdictResponse = { token, summary, results, expiresAt }
+  return NextResponse.json(response, { headers: { "Cache-Control": "no-store" } })
+}
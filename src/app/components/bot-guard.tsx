@@ -0,0 +1,176 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type FormEvent, type ReactNode } from "react"
+import type { Summary } from "../lib/botDetector"
+import {
+  acquireGuardMonitor,
+  decide,
+  DEFAULT_PROBE_MS,
+  ensureDetections,
+  guardMonitor,
+  probeInto,
+  resolvePolicy,
+  type GuardAction,
+  type GuardPolicy,
+  type PolicyName,
+} from "../lib/guard"
+import { requestVerdict } from "../lib/verdictClient"
+import { challengeKindFor, StepUpChallenge } from "./challenges"
+
+export type BotGuard = {
+  level: Summary["level"] | null
+  summary: Summary | null
+  pending: boolean
+  // Resolves true once the session scores "low", running an activity probe if needed.
+  requireHuman: (options?: { probeMs?: number, signal?: AbortSignal }) => Promise<boolean>
+  // Decides what a policy allows right now, probing first when it asks for that.
+  evaluate: (policy?: GuardPolicy | PolicyName, signal?: AbortSignal) => Promise<Exclude<GuardAction, "probe">>
+}
+
+export function useBotGuard(): BotGuard {
+  const monitor = guardMonitor()
+  const [summary, setSummary] = useState<Summary | null>(() => monitor.getSummary())
+  const [pending, setPending] = useState(false)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const off = monitor.onUpdate((update) => setSummary(update.summary))
+    acquireGuardMonitor(controller.signal, monitor)
+    ensureDetections(monitor)
+    return () => {
+      controller.abort()
+      off()
+    }
+  }, [monitor])
+
+  const withPending = useCallback(async <T,>(work: () => Promise<T>): Promise<T> => {
+    setPending(true)
+    try {
+      return await work()
+    } finally {
+      setPending(false)
+    }
+  }, [])
+
+  const requireHuman = useCallback<BotGuard["requireHuman"]>(({ probeMs = DEFAULT_PROBE_MS, signal } = {}) =>
+    withPending(async () => {
+      await ensureDetections(monitor)
+      if (monitor.getSummary()?.level === "low") return true
+      return (await probeInto(monitor, probeMs, signal))?.level === "low"
+    }), [monitor, withPending])
+
+  const evaluate = useCallback<BotGuard["evaluate"]>((name, signal) =>
+    withPending(async () => {
+      const policy = resolvePolicy(name)
+      await ensureDetections(monitor)
+      const action = decide(monitor.getSummary()?.level, policy)
+      if (action !== "probe") return action
+      const after = await probeInto(monitor, policy.probeMs ?? DEFAULT_PROBE_MS, signal)
+      return after?.level === "low" ? "allow" : policy.afterProbe ?? "challenge"
+    }), [monitor, withPending])
+
+  return { level: summary?.level ?? null, summary, pending, requireHuman, evaluate }
+}
+
+export type BotGateProps = {
+  policy?: GuardPolicy | PolicyName
+  children: ReactNode
+  // Renders the step-up challenge; defaults to <StepUpChallenge> for the current level.
+  renderChallenge?: (done: (passed: boolean) => void) => ReactNode
+  onBlocked?: () => void
+  // Hidden input that carries the signed verdict token to the form's backend.
+  tokenField?: string
+}
+
+type GateState = "idle" | "checking" | "challenge" | "blocked"
+type Submitter = HTMLButtonElement | HTMLInputElement
+
+// Wraps a form and holds its submit until the policy allows it. The original submit
+// is replayed with the verdict token added, so the form's own handlers run unchanged.
+export function BotGate({ policy = "default", children, renderChallenge, onBlocked, tokenField = "botVerdict" }: BotGateProps) {
+  const guard = useBotGuard()
+  const challenge = renderChallenge ?? ((done: (passed: boolean) => void) => (
+    <StepUpChallenge kind={challengeKindFor(guard.level)} onDone={done} />
+  ))
+  const [state, setState] = useState<GateState>("idle")
+  const released = useRef(false)
+  // Settles the held submit: passed or failed, or null when the gate went away.
+  const challengeDone = useRef<((passed: boolean | null) => void) | null>(null)
+
+  useEffect(() => () => challengeDone.current?.(null), [])
+
+  const release = useCallback(async (form: HTMLFormElement, submitter: Submitter | null) => {
+    const verdict = await requestVerdict(guardMonitor().results())
+    let input = form.querySelector<HTMLInputElement>(`input[name="${tokenField}"]`)
+    if (!input) {
+      input = document.createElement("input")
+      input.type = "hidden"
+      input.name = tokenField
+      form.appendChild(input)
+    }
+    input.value = verdict?.token ?? ""
+    setState("idle")
+    // requestSubmit dispatches synchronously, so the flag is consumed by the replayed
+    // submit or, when constraint validation stops it, cleared before anyone else sees it.
+    released.current = true
+    try {
+      // The clicked button decides formaction/formmethod and adds its own name=value.
+      // requestSubmit throws for a button that no longer belongs to the form.
+      form.requestSubmit(submitter?.form === form ? submitter : null)
+    } finally {
+      released.current = false
+    }
+  }, [tokenField])
+
+  const block = useCallback(() => {
+    setState("blocked")
+    onBlocked?.()
+  }, [onBlocked])
+
+  async function handleSubmit(event: FormEvent<HTMLDivElement>) {
+    if (released.current) {
+      released.current = false
+      return
+    }
+    const form = event.target as HTMLFormElement
+    const submitter = (event.nativeEvent as SubmitEvent).submitter as Submitter | null
+    event.preventDefault()
+    event.stopPropagation()
+    if (state === "checking" || state === "challenge") return
+    setState("checking")
+
+    try {
+      let action = await guard.evaluate(policy)
+      if (action === "challenge") {
+        setState("challenge")
+        const passed = await new Promise<boolean | null>((resolve) => {
+          challengeDone.current = resolve
+        })
+        if (passed === null) return
+        action = passed ? "allow" : "block"
+      }
+      if (action === "allow") await release(form, submitter)
+      else block()
+    } catch {
+      // The submit stays held; the next one runs the check again.
+      setState("idle")
+    } finally {
+      challengeDone.current = null
+    }
+  }
+
+  return (
+    <div onSubmitCapture={handleSubmit} aria-busy={state === "checking"}>
+      {children}
+      {state === "checking" && (
+        <p className="mt-2 text-xs text-muted-foreground">Checking your session…</p>
+      )}
+      {state === "challenge" && challenge((passed) => challengeDone.current?.(passed))}
+      {state === "blocked" && (
+        <p role="alert" className="mt-2 text-sm text-red-400">
+          This action was blocked because the session looks automated.
+        </p>
+      )}
+    </div>
+  )
+}
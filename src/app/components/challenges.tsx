@@ -0,0 +1,178 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from "react"
+import type { ChallengeKind, ChallengeOutcome, IssuedChallenge, SliderSolution } from "../lib/challenge"
+import { guardMonitor } from "../lib/guard"
+import { getInputCollector } from "../lib/inputCollector"
+import { solvePow } from "../lib/pow"
+import { encodeRecording } from "../lib/recording"
+import type { RiskLevel } from "../lib/scoring"
+import { signal } from "../lib/signals"
+import { cn } from "../lib/utils"
+import { requestChallenge, verifyChallenge } from "../lib/verdictClient"
+import { SIGNAL_WEIGHTS } from "../lib/weights"
+
+type Outcome = "passed" | "failed" | "skipped"
+
+const SLIDER_DONE = 0.95
+
+// Medium sessions get the silent proof of work; high ones have to drag the slider.
+export function challengeKindFor(level: RiskLevel | null | undefined): ChallengeKind {
+  return level === "high" ? "slider" : "pow"
+}
+
+// The server applies the same signal to later verdicts; this one moves the live
+// level without waiting for the next round trip.
+function observeOutcome(kind: ChallengeKind, outcome: Outcome, reason?: string): void {
+  guardMonitor().observe([
+    signal("challenge", `Step-up ${kind} challenge ${outcome}`, outcome !== "passed", SIGNAL_WEIGHTS.challenge, reason ? `${kind}: ${reason}` : kind),
+  ], { decay: false })
+}
+
+export type StepUpChallengeProps = {
+  kind: ChallengeKind
+  onDone: (passed: boolean) => void
+  // Origin serving the API routes; empty means same-origin.
+  base?: string
+}
+
+export function StepUpChallenge({ kind, onDone, base = "" }: StepUpChallengeProps) {
+  const [challenge, setChallenge] = useState<IssuedChallenge | null>(null)
+  const [status, setStatus] = useState("Preparing a quick check…")
+  const finished = useRef(false)
+  const done = useRef(onDone)
+
+  useEffect(() => {
+    done.current = onDone
+  }, [onDone])
+
+  // A missing outcome means the server did not answer, which is not evidence either way.
+  const finish = useCallback((outcome: Outcome | null, reason?: string) => {
+    if (finished.current) return
+    finished.current = true
+    if (outcome) observeOutcome(kind, outcome, reason)
+    done.current(outcome === "passed")
+  }, [kind])
+
+  const submit = useCallback(async (verify: Promise<ChallengeOutcome | null>) => {
+    setStatus("Verifying…")
+    const result = await verify
+    finish(result && (result.passed ? "passed" : "failed"), result?.reason)
+  }, [finish])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    requestChallenge(kind, base).then(async (issued) => {
+      if (controller.signal.aborted) return
+      if (!issued) return finish(null)
+      setChallenge(issued)
+      if (issued.kind !== "pow") return
+      setStatus("Checking your browser…")
+      const counter = await solvePow(issued.id, issued.difficulty ?? 0, {
+        signal: controller.signal,
+        onProgress: ({ attempts }) => setStatus(`Checking your browser… (${attempts.toLocaleString()} hashes)`),
+      })
+      if (controller.signal.aborted) return
+      await submit(counter === null ? Promise.resolve(null) : verifyChallenge(issued.id, { counter }, base))
+    })
+    return () => controller.abort()
+  }, [kind, base, finish, submit])
+
+  async function skip() {
+    if (challenge) await verifyChallenge(challenge.id, null, base)
+    finish("skipped")
+  }
+
+  return (
+    <div role="dialog" aria-label="Verification" className="mt-3 space-y-3 rounded-md border border-border/60 bg-secondary/30 p-4">
+      {kind === "slider" && challenge
+        ? <SliderChallenge onRelease={(solution) => submit(verifyChallenge(challenge.id, solution, base))} />
+        : <p className="text-sm text-muted-foreground" aria-live="polite">{status}</p>}
+      <button
+        type="button"
+        onClick={skip}
+        className="rounded-md px-3 py-1.5 text-xs ring-1 bg-secondary hover:bg-secondary/80 transition-colors"
+      >
+        Skip
+      </button>
+    </div>
+  )
+}
+
+type SliderProps = {
+  onRelease: (solution: SliderSolution) => void
+}
+
+// The drag is recorded from the shared input collector, so the server judges the
+// same pointer trace the behavioral analyzers would see.
+export function SliderChallenge({ onRelease }: SliderProps) {
+  const track = useRef<HTMLDivElement>(null)
+  const startedAt = useRef<number | null>(null)
+  const [position, setPosition] = useState(0)
+  const [submitted, setSubmitted] = useState(false)
+
+  useEffect(() => getInputCollector().acquire(), [])
+
+  const fraction = (clientX: number) => {
+    const rect = track.current!.getBoundingClientRect()
+    return Math.max(0, Math.min(1, (clientX - rect.left) / rect.width))
+  }
+
+  function handleDown(e: ReactPointerEvent<HTMLDivElement>) {
+    if (submitted) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    startedAt.current = e.timeStamp
+  }
+
+  function handleMove(e: ReactPointerEvent<HTMLDivElement>) {
+    if (startedAt.current !== null) setPosition(fraction(e.clientX))
+  }
+
+  function handleCancel() {
+    startedAt.current = null
+    setPosition(0)
+  }
+
+  function handleUp(e: ReactPointerEvent<HTMLDivElement>) {
+    const from = startedAt.current
+    startedAt.current = null
+    if (from === null) return
+    if (fraction(e.clientX) < SLIDER_DONE) {
+      setPosition(0)
+      return
+    }
+    setSubmitted(true)
+    const rect = track.current!.getBoundingClientRect()
+    const recording = encodeRecording(getInputCollector().records(from, e.timeStamp), {
+      durationMs: Math.round(e.timeStamp - from),
+      maxTouchPoints: navigator.maxTouchPoints ?? 0,
+      userAgent: navigator.userAgent,
+    })
+    onRelease({ recording, track: { x: rect.left, width: rect.width } })
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">Drag the handle all the way to the right.</p>
+      <div ref={track} className="relative h-9 rounded-full bg-muted ring-1 ring-border/60">
+        <div className="absolute inset-y-0 left-0 rounded-full bg-primary/30" style={{ width: `${position * 100}%` }} />
+        <div
+          role="slider"
+          aria-label="Verification slider"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(position * 100)}
+          onPointerDown={handleDown}
+          onPointerMove={handleMove}
+          onPointerUp={handleUp}
+          onPointerCancel={handleCancel}
+          className={cn(
+            "absolute top-0 h-9 w-9 -translate-x-1/2 touch-none rounded-full bg-primary shadow ring-1 ring-primary/30",
+            submitted ? "cursor-default" : "cursor-grab active:cursor-grabbing"
+          )}
+          style={{ left: `${position * 100}%` }}
+        />
+      </div>
+    </div>
+  )
+}
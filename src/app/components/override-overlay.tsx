@@ -0,0 +1,58 @@
+"use client"
+
+import { DEVICE_PROFILES, OVERRIDES_STORAGE_KEY, type Overrides } from "../lib/overrides"
+
+// Lists every active debug override and what it changes, so a demo verdict is never
+// mistaken for a real one.
+export function OverrideOverlay({ overrides }: { overrides: Overrides }) {
+  const items: { title: string, explanation: string }[] = []
+  if (overrides.force.length) {
+    items.push({
+      title: `Forced on: ${overrides.force.join(", ")}`,
+      explanation: "These detectors still run, but report suspicious whatever they measured. The server scores them as sent.",
+    })
+  }
+  if (overrides.clear.length) {
+    items.push({
+      title: `Forced off: ${overrides.clear.join(", ")}`,
+      explanation: "These detectors still run, but report clean.",
+    })
+  }
+  if (overrides.profile) {
+    items.push({
+      title: `Device profile: ${DEVICE_PROFILES[overrides.profile].label}`,
+      explanation: "Static detectors read navigator, Client Hints, screen, WebGL and fonts from the profile, and scores use its platform baseline. The server still sees this browser's real request headers.",
+    })
+  }
+  if (overrides.freeze) {
+    items.push({
+      title: "Probes frozen",
+      explanation: "The activity probe, continuous input scoring and focus tracking are paused, so the level only reflects static signals.",
+    })
+  }
+
+  return (
+    <aside
+      data-bot-overrides
+      role="status"
+      className="fixed bottom-4 left-4 z-50 max-w-sm space-y-2 rounded-lg border border-amber-500/40 bg-background/95 p-4 text-xs shadow-lg backdrop-blur"
+    >
+      <p className="font-semibold text-amber-400">
+        Debug overrides active ({overrides.source === "query" ? "from the URL" : "from local config"})
+      </p>
+      <ul className="space-y-2">
+        {items.map((item) => (
+          <li key={item.title}>
+            <p className="font-mono text-foreground">{item.title}</p>
+            <p className="text-muted-foreground">{item.explanation}</p>
+          </li>
+        ))}
+      </ul>
+      <p className="text-muted-foreground">
+        {overrides.source === "query"
+          ? <>Add <span className="font-mono">overrides=save</span> to keep them for later visits.</>
+          : <>Stored under <span className="font-mono">{OVERRIDES_STORAGE_KEY}</span>; open the page with <span className="font-mono">?overrides=off</span> to clear.</>}
+      </p>
+    </aside>
+  )
+}
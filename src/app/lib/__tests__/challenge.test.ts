@@ -0,0 +1,147 @@
+import { createHash } from "crypto"
+import {
+  challengeSignal, CHALLENGE_TTL_MS, issueChallenge, leadingZeroBits, powDifficulty, POW_MAX_BITS, POW_MIN_BITS, recordVerdict, verifyChallenge,
+  type ChallengeKind, type IssuedChallenge,
+} from "../challenge"
+import { encodeRecording } from "../recording"
+import { issueSession } from "../session"
+
+const NOW = 1_760_000_000_000
+
+function solve(id: string, difficulty: number): string {
+  for (let n = 0; ; n++) {
+    if (leadingZeroBits(createHash("sha256").update(`${id}:${n}`).digest()) >= difficulty) return String(n)
+  }
+}
+
+// Each session stands for a different client unless a test says otherwise.
+function issue(nonce: string, kind: ChallengeKind, now = NOW, client = nonce): IssuedChallenge {
+  const challenge = issueChallenge(nonce, client, kind, now)
+  if ("error" in challenge) throw new Error(challenge.error)
+  return challenge
+}
+
+// A session whose latest verdict was clean, so its proof of work is cheap.
+function lowRiskSession(): string {
+  const { nonce } = issueSession(NOW)
+  recordVerdict(nonce, 0)
+  return nonce
+}
+
+describe("proof of work", () => {
+  it("counts leading zero bits", () => {
+    expect(leadingZeroBits(new Uint8Array([0, 0x10, 0xff]))).toBe(11)
+    expect(leadingZeroBits(new Uint8Array([0, 0]))).toBe(16)
+  })
+
+  it("scales difficulty with P(bot)", () => {
+    expect(powDifficulty(0)).toBe(POW_MIN_BITS)
+    expect(powDifficulty(1)).toBe(POW_MAX_BITS)
+    expect(powDifficulty(7)).toBe(POW_MAX_BITS)
+  })
+
+  it("takes the difficulty from the session's latest verdict", () => {
+    expect(issue(issueSession(NOW).nonce, "pow").difficulty).toBe(POW_MAX_BITS)
+    expect(issue(lowRiskSession(), "pow").difficulty).toBe(POW_MIN_BITS)
+  })
+
+  it("passes a solved puzzle once", () => {
+    const nonce = lowRiskSession()
+    const challenge = issue(nonce, "pow")
+    const counter = solve(challenge.id, challenge.difficulty!)
+    expect(verifyChallenge(nonce, challenge.id, { counter }, NOW + 1000)).toEqual({ passed: true })
+    expect(verifyChallenge(nonce, challenge.id, { counter }, NOW + 1000)).toEqual({ passed: false, reason: "already answered" })
+    expect(challengeSignal(nonce, nonce, NOW + 1000)).toMatchObject({ id: "challenge", suspicious: false, weight: 3 })
+  })
+
+  it("fails a wrong or late answer", () => {
+    const nonce = lowRiskSession()
+    const wrong = issue(nonce, "pow")
+    expect(verifyChallenge(nonce, wrong.id, { counter: "" }, NOW)).toEqual({ passed: false, reason: "malformed" })
+    const other = lowRiskSession()
+    const late = issue(other, "pow")
+    expect(verifyChallenge(other, late.id, { counter: solve(late.id, late.difficulty!) }, NOW + CHALLENGE_TTL_MS + 1)).toEqual({ passed: false, reason: "expired" })
+  })
+})
+
+describe("challenge outcomes", () => {
+  it("refuses sessions the server did not issue", () => {
+    expect(issueChallenge("s1.forged.0.x", "s1.forged.0.x", "pow", NOW)).toEqual({ error: "bad-nonce" })
+    expect(verifyChallenge("s1.forged.0.x", "nope", { counter: "1" }, NOW)).toEqual({ passed: false, reason: "unknown challenge" })
+  })
+
+  it("only accepts an answer from the session the challenge was issued to", () => {
+    const owner = lowRiskSession()
+    const challenge = issue(owner, "pow")
+    const counter = solve(challenge.id, challenge.difficulty!)
+    const other = lowRiskSession()
+    expect(verifyChallenge(other, challenge.id, { counter }, NOW)).toEqual({ passed: false, reason: "unknown challenge" })
+    expect(challengeSignal(other, other, NOW)).toBeNull()
+    expect(verifyChallenge(owner, challenge.id, { counter }, NOW)).toEqual({ passed: true })
+  })
+
+  it("reports a skip as suspicious", () => {
+    const { nonce } = issueSession(NOW)
+    const challenge = issue(nonce, "slider")
+    expect(challengeSignal(nonce, nonce, NOW)).toBeNull()
+    expect(verifyChallenge(nonce, challenge.id, null, NOW)).toEqual({ passed: false, reason: "skipped" })
+    expect(challengeSignal(nonce, nonce, NOW)).toMatchObject({ suspicious: true, name: "Step-up slider challenge skipped" })
+  })
+
+  it("reports a challenge left unanswered as skipped", () => {
+    const nonce = lowRiskSession()
+    issue(nonce, "pow")
+    expect(challengeSignal(nonce, nonce, NOW + CHALLENGE_TTL_MS + 1)).toMatchObject({ suspicious: true, name: "Step-up pow challenge skipped" })
+  })
+
+  it("keeps one challenge open per session", () => {
+    const nonce = lowRiskSession()
+    const first = issue(nonce, "pow")
+    expect(issueChallenge(nonce, nonce, "pow", NOW + 1000)).toEqual(first)
+    expect(issueChallenge(nonce, nonce, "slider", NOW + 1000)).toEqual({ error: "pending" })
+  })
+
+  it("keeps a failure for the rest of the session", () => {
+    const nonce = lowRiskSession()
+    const failed = issue(nonce, "pow")
+    verifyChallenge(nonce, failed.id, { counter: "x".repeat(40) }, NOW)
+    expect(issueChallenge(nonce, nonce, "pow", NOW)).toEqual({ error: "failed" })
+    expect(challengeSignal(nonce, nonce, NOW + 60 * 60 * 1000)).toMatchObject({ suspicious: true, name: "Step-up pow challenge failed" })
+  })
+
+  it("keeps a failure for the client when it opens a new session", () => {
+    const client = "same-ip-and-ua"
+    const first = lowRiskSession()
+    const failed = issue(first, "pow", NOW, client)
+    verifyChallenge(first, failed.id, null, NOW)
+
+    const fresh = lowRiskSession()
+    expect(challengeSignal(fresh, client, NOW + 1000)).toMatchObject({ suspicious: true, details: "pow: skipped (earlier session)" })
+    expect(issueChallenge(fresh, client, "pow", NOW + 1000)).toEqual({ error: "failed" })
+    expect(challengeSignal(fresh, "another-client", NOW + 1000)).toBeNull()
+    expect(issue(fresh, "pow", NOW + 1000, "another-client")).toMatchObject({ kind: "pow" })
+  })
+
+  it("cannot hide an earlier result behind a new challenge", () => {
+    const nonce = lowRiskSession()
+    const passed = issue(nonce, "pow")
+    verifyChallenge(nonce, passed.id, { counter: solve(passed.id, passed.difficulty!) }, NOW)
+    issue(nonce, "slider", NOW + 1000)
+    expect(challengeSignal(nonce, nonce, NOW + 2000)).toMatchObject({ suspicious: false })
+    expect(challengeSignal(nonce, nonce, NOW + 1000 + CHALLENGE_TTL_MS + 1)).toMatchObject({ suspicious: true, name: "Step-up slider challenge skipped" })
+    expect(issueChallenge(nonce, nonce, "pow", NOW + 1000 + CHALLENGE_TTL_MS + 1)).toEqual({ error: "failed" })
+  })
+
+  it("fails a slider that was jumped to the end", () => {
+    const { nonce } = issueSession(NOW)
+    const challenge = issue(nonce, "slider")
+    const recording = encodeRecording([
+      { type: "pointerdown", t: 0, trusted: true, x: 100, y: 50 },
+      { type: "pointermove", t: 16, trusted: true, x: 400, y: 50 },
+      { type: "pointerup", t: 20, trusted: true, x: 400, y: 50 },
+    ], { durationMs: 20, maxTouchPoints: 0 })
+    const outcome = verifyChallenge(nonce, challenge.id, { recording, track: { x: 100, width: 300 } }, NOW)
+    expect(outcome).toMatchObject({ passed: false, reason: "too few movements" })
+    expect(challengeSignal(nonce, nonce, NOW)).toMatchObject({ suspicious: true })
+  })
+})
@@ -0,0 +1,83 @@
+import { applyBaseline, claimPlatform, evaluateCoherence, hintsFromHeaders, type ClientHints } from "../coherence"
+import { detectClientHints, parseClientFacts } from "../headerSignals"
+import { signal } from "../signals"
+import { rescore } from "../verdict"
+
+const WINDOWS_CHROME = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36"
+const LINUX_CHROME = "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36"
+const IPAD_DESKTOP = "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15"
+
+const android: ClientHints = { platform: "Android", mobile: false, brands: ["Chromium", "Google Chrome"] }
+
+describe("evaluateCoherence", () => {
+  it("accepts a Snapdragon Windows laptop", () => {
+    const claim = claimPlatform(WINDOWS_CHROME, { platform: "Windows", mobile: false, brands: [] })
+    const issues = evaluateCoherence(claim, {
+      navigatorPlatform: "Win32",
+      webglRenderer: "ANGLE (Qualcomm, Adreno (TM) 690 Direct3D11 vs_5_0 ps_5_0, D3D11)",
+      screen: { width: 1920, height: 1200 },
+      maxTouchPoints: 10,
+      fonts: ["Segoe UI"],
+    })
+    expect(issues).toEqual([])
+  })
+
+  it("still rejects a phone GPU without Direct3D behind a Windows UA", () => {
+    const claim = claimPlatform(WINDOWS_CHROME)
+    const issues = evaluateCoherence(claim, { navigatorPlatform: "Win32", webglRenderer: "Adreno (TM) 740", screen: { width: 1920, height: 1080 }, maxTouchPoints: 0 })
+    expect(issues.map(i => i.field)).toEqual(["gpu"])
+  })
+
+  it("accepts a laptop screen scaled to 150%", () => {
+    const claim = claimPlatform(WINDOWS_CHROME, { platform: "Windows", mobile: false, brands: [] })
+    const issues = evaluateCoherence(claim, { navigatorPlatform: "Win32", screen: { width: 1366, height: 576 }, maxTouchPoints: 0 })
+    expect(issues).toEqual([])
+  })
+
+  it("treats Android Chrome asking for the desktop site as coherent", () => {
+    const claim = claimPlatform(LINUX_CHROME, android, 5)
+    expect(claim).toMatchObject({ os: "android", uaOS: "linux", desktopSite: true })
+    const issues = evaluateCoherence(claim, {
+      navigatorPlatform: "Linux armv8l",
+      webglRenderer: "Adreno (TM) 730",
+      screen: { width: 412, height: 915 },
+      maxTouchPoints: 5,
+      fonts: ["Roboto"],
+    })
+    expect(issues).toEqual([])
+  })
+
+  it("flags Android hints behind a Windows UA", () => {
+    const claim = claimPlatform(WINDOWS_CHROME, android, 5)
+    expect(claim.desktopSite).toBe(false)
+    const issues = evaluateCoherence(claim, { navigatorPlatform: null, screen: { width: 412, height: 915 }, maxTouchPoints: 5 })
+    expect(issues.map(i => i.field)).toEqual(["client-hints", "screen"])
+  })
+})
+
+describe("server platform claim", () => {
+  it("reads the low-entropy Client Hints from the request headers", () => {
+    const headers = new Headers({
+      "sec-ch-ua": '"Chromium";v="124", "Google Chrome";v="124", "Not-A.Brand";v="99"',
+      "sec-ch-ua-mobile": "?0",
+      "sec-ch-ua-platform": '"Android"',
+    })
+    expect(hintsFromHeaders(headers)).toEqual({ platform: "Android", mobile: false, brands: ["Chromium", "Google Chrome", "Not-A.Brand"] })
+    expect(hintsFromHeaders(new Headers())).toBeNull()
+  })
+
+  it("does not count the desktop-site request as a header contradiction", () => {
+    const headers = new Headers({ "user-agent": LINUX_CHROME, "sec-ch-ua": '"Chromium";v="124"', "sec-ch-ua-mobile": "?0", "sec-ch-ua-platform": '"Android"' })
+    expect(detectClientHints(headers).suspicious).toBe(false)
+  })
+
+  it("applies the same baseline as the page for an iPad asking for the desktop site", () => {
+    const { maxTouchPoints } = parseClientFacts({ client: { userAgent: IPAD_DESKTOP, maxTouchPoints: 5 } })
+    const claim = claimPlatform(IPAD_DESKTOP, null, maxTouchPoints)
+    expect(claim.os).toBe("ios")
+    const plugins = signal("plugins", "", true, 1.5)
+    const { results } = rescore([plugins], [], {}, claim)
+    expect(results.find(r => r.id === "plugins")).toEqual(applyBaseline([{ ...plugins, weight: 1.5 }], claim)[0])
+    expect(results.find(r => r.id === "plugins")?.weight).toBeLessThan(1.5)
+  })
+})
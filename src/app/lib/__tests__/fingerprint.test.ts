@@ -0,0 +1,59 @@
+import { parseSnapshot, snapshotEnv, type DetectionEnv } from "../env"
+import { computeFingerprint, fingerprintSignals } from "../fingerprint"
+import windowsChrome from "./fixtures/windows-chrome.snapshot.json"
+
+const UA = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36"
+
+const env = (change: Partial<DetectionEnv> = {}): DetectionEnv => ({ ...snapshotEnv(parseSnapshot(structuredClone(windowsChrome))), ...change })
+
+function stubSessionStorage(): void {
+  const items = new Map<string, string>()
+  Object.assign(globalThis, {
+    sessionStorage: {
+      getItem: (k: string) => items.get(k) ?? null,
+      setItem: (k: string, v: string) => void items.set(k, v),
+    },
+  })
+}
+
+const changed = (signals: ReturnType<typeof fingerprintSignals>) => signals.find(s => s.id === "fp-changed")!
+
+beforeEach(stubSessionStorage)
+afterEach(() => Reflect.deleteProperty(globalThis, "sessionStorage"))
+
+describe("computeFingerprint", () => {
+  it("keeps the id when the zoom level changes", async () => {
+    const base = env()
+    const zoomed = env({ screen: () => ({ ...base.screen(), pixelRatio: 1.25 }) })
+    expect((await computeFingerprint(zoomed)).id).toBe((await computeFingerprint(base)).id)
+  })
+
+  it("marks a component that read as nothing as unknown", async () => {
+    const fp = await computeFingerprint(env({ audioFingerprint: async () => null }))
+    expect(fp.components.audio).toBeNull()
+    expect(fp.components.canvas).toMatch(/^[0-9a-f]{64}$/)
+  })
+})
+
+describe("fingerprintSignals", () => {
+  it("does not count a component that was unknown on one load as changed", async () => {
+    const timedOut = await computeFingerprint(env({ audioFingerprint: async () => null }))
+    const measured = await computeFingerprint(env())
+    expect(changed(fingerprintSignals(timedOut, [], UA)).suspicious).toBe(false)
+    expect(changed(fingerprintSignals(measured, [], UA)).suspicious).toBe(false)
+    expect(changed(fingerprintSignals(timedOut, [], UA)).suspicious).toBe(false)
+  })
+
+  it("flags a component that really changed within the session", async () => {
+    const first = await computeFingerprint(env())
+    const noisy = await computeFingerprint(env({ canvas: () => ({ dataUrl: "data:image/png;base64,BBBB", stable: false }) }))
+    fingerprintSignals(first, [], UA)
+    expect(changed(fingerprintSignals(noisy, [], UA))).toMatchObject({ suspicious: true, details: "changed=canvas" })
+  })
+
+  it("flags a fingerprint seen with many User-Agents", async () => {
+    const fp = await computeFingerprint(env())
+    const visits = ["UA 1", "UA 2"].map((userAgent, i) => ({ at: 1000 + i, visitorId: "v", fingerprint: fp.id, userAgent }))
+    expect(fingerprintSignals(fp, visits, UA, 2000).find(s => s.id === "fp-ua-rotation")?.suspicious).toBe(true)
+  })
+})
@@ -0,0 +1,28 @@
+import { acquireGuardMonitor } from "../guard"
+import type { RiskMonitor } from "../riskMonitor"
+
+describe("acquireGuardMonitor", () => {
+  it("keeps the monitor running until the last holder lets go", () => {
+    let running = false
+    const monitor = {
+      start: jest.fn((signal: AbortSignal) => {
+        running = true
+        signal.addEventListener("abort", () => { running = false })
+      }),
+    } as unknown as RiskMonitor
+    const first = new AbortController()
+    const second = new AbortController()
+    acquireGuardMonitor(first.signal, monitor)
+    acquireGuardMonitor(second.signal, monitor)
+    expect(monitor.start).toHaveBeenCalledTimes(1)
+
+    first.abort()
+    expect(running).toBe(true)
+    second.abort()
+    expect(running).toBe(false)
+
+    acquireGuardMonitor(new AbortController().signal, monitor)
+    expect(monitor.start).toHaveBeenCalledTimes(2)
+    expect(running).toBe(true)
+  })
+})
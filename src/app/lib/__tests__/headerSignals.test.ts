@@ -0,0 +1,23 @@
+import { detectClientHints } from "../headerSignals"
+
+const ANDROID_PHONE = "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36"
+const ANDROID_TABLET = "Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36"
+
+const request = (ua: string, mobile: string) => new Headers({
+  "user-agent": ua,
+  "sec-ch-ua": '"Chromium";v="124", "Google Chrome";v="124"',
+  "sec-ch-ua-mobile": mobile,
+  "sec-ch-ua-platform": '"Android"',
+})
+
+describe("detectClientHints", () => {
+  it("accepts an Android phone and an Android tablet with their own mobile hints", () => {
+    expect(detectClientHints(request(ANDROID_PHONE, "?1")).suspicious).toBe(false)
+    expect(detectClientHints(request(ANDROID_TABLET, "?0")).suspicious).toBe(false)
+  })
+
+  it("flags a mobile hint that contradicts the UA", () => {
+    expect(detectClientHints(request(ANDROID_PHONE, "?0"))).toMatchObject({ suspicious: true, details: "mobile=?0" })
+    expect(detectClientHints(request(ANDROID_TABLET, "?1"))).toMatchObject({ suspicious: true, details: "mobile=?1" })
+  })
+})
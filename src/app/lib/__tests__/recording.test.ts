@@ -0,0 +1,37 @@
+import type { InputRecord } from "../inputCollector"
+import { analyzeActivity } from "../botDetector"
+import { decodeRecording, encodeRecording, parseRecording, replayRecording } from "../recording"
+
+const records: InputRecord[] = [
+  { type: "pointermove", t: 1000.25, trusted: true, x: 10, y: 20, pointerType: "mouse", coalesced: 2 },
+  { type: "pointerdown", t: 1012.5, trusted: true, x: 11, y: 20, buttons: 1, pressure: 0.5 },
+  { type: "keydown", t: 1140.125, trusted: false, code: "KeyA", repeat: true },
+  { type: "pointermove", t: 1190, trusted: true, x: 40, y: 22, movementX: 29, movementY: 2 },
+]
+
+describe("input recordings", () => {
+  it("encodes each type once and only the fields an event had", () => {
+    const recording = encodeRecording(records, { durationMs: 5000, maxTouchPoints: 0, startedAt: 1 })
+    expect(recording.types).toEqual(["pointermove", "pointerdown", "keydown"])
+    expect(recording.events[2]).toEqual({ k: 2, d: 127.625, u: 1, cd: "KeyA", r: 1 })
+  })
+
+  it("decodes to the same events relative to the first one", () => {
+    const decoded = decodeRecording(parseRecording(JSON.parse(JSON.stringify(
+      encodeRecording(records, { durationMs: 5000, maxTouchPoints: 0 }),
+    ))))
+    expect(decoded).toEqual(records.map(r => ({ ...r, t: +(r.t - records[0].t).toFixed(3) })))
+  })
+
+  it("replays to the same probe results as the live input", () => {
+    const live: InputRecord[] = [1000, 1005, 1050, 1100].map((t, i) => ({ type: "pointermove", t, trusted: true, x: 10 * i, y: 5 * i }))
+    const recording = encodeRecording(live, { durationMs: 5000, maxTouchPoints: 0 })
+    const expected = analyzeActivity(live, 5000)
+    expect(expected.find(s => s.id === "probe-impossible-speed")).toMatchObject({ suspicious: true, details: "minInterval=5" })
+    expect(replayRecording(recording).probe).toEqual(expected)
+  })
+
+  it("rejects files that are not recordings", () => {
+    expect(() => parseRecording({ version: 1, events: [] })).toThrow("Not a version 1 input recording")
+  })
+})
@@ -0,0 +1,85 @@
+import { detectorRegistry, replaySnapshot } from "../botDetector"
+import { captureSnapshot, parseSnapshot, snapshotEnv, type EnvSnapshot } from "../env"
+import windowsChrome from "./fixtures/windows-chrome.snapshot.json"
+
+const fixture = () => parseSnapshot(structuredClone(windowsChrome))
+
+function edit(snapshot: EnvSnapshot, change: (facts: EnvSnapshot["facts"]) => void): EnvSnapshot {
+  change(snapshot.facts)
+  return snapshot
+}
+
+const suspiciousIds = (results: { id: string, suspicious: boolean }[]) => results.filter(r => r.suspicious).map(r => r.id).sort()
+
+afterEach(() => detectorRegistry.reset())
+
+describe("replaySnapshot", () => {
+  it("scores a recorded desktop Chrome visitor as human", async () => {
+    const { results, summary } = await replaySnapshot(fixture())
+    expect(summary.level).toBe("low")
+    expect(results.map(r => r.id)).toEqual(expect.arrayContaining(["webdriver", "coherence", "raf-cadence", "cross-context"]))
+    expect(results.filter(r => r.weight === 0)).toEqual([])
+  })
+
+  it("reproduces the verdict of an automated browser", async () => {
+    const snapshot = edit(fixture(), f => {
+      if ("value" in f.navigator) f.navigator.value.webdriver = true
+    })
+    const { results, summary } = await replaySnapshot(snapshot)
+    expect(suspiciousIds(results)).toContain("webdriver")
+    expect(summary.level).toBe("high")
+    expect(summary.forcedBy).toEqual(["webdriver"])
+  })
+
+  it("keeps a visitor with DevTools open low", async () => {
+    const snapshot = edit(fixture(), f => {
+      if (f.instrumentation && "value" in f.instrumentation) f.instrumentation.value.runtimeEnabled = true
+    })
+    const { results, summary } = await replaySnapshot(snapshot)
+    expect(suspiciousIds(results)).toContain("cdp-runtime")
+    expect(summary.level).toBe("low")
+  })
+
+  it("replays a fact that threw as a failed detector", async () => {
+    const snapshot = edit(fixture(), f => {
+      f.webgl = { error: "TypeError: getContext is not a function" }
+    })
+    const { results } = await replaySnapshot(snapshot)
+    const webgl = results.find(r => r.id === "webgl")
+    expect(webgl).toMatchObject({ suspicious: false, weight: 0 })
+    expect(webgl?.details).toContain("getContext")
+  })
+
+  it("replays a snapshot from before a fact was recorded without flagging it", async () => {
+    const snapshot = edit(fixture(), f => {
+      delete f.integrity
+    })
+    const { results, summary } = await replaySnapshot(snapshot)
+    for (const id of ["fn-tamper", "nav-lies"]) {
+      expect(results.find(r => r.id === id)).toMatchObject({ suspicious: false, weight: 0 })
+    }
+    expect(summary.level).toBe("low")
+  })
+
+  it("applies the configured overrides", async () => {
+    detectorRegistry.configure({ detectors: { "chrome-app": { enabled: false }, "plugins": { weight: 3 } } })
+    const { results } = await replaySnapshot(fixture())
+    expect(results.find(r => r.id === "chrome-app")).toBeUndefined()
+    expect(results.find(r => r.id === "plugins")?.weight).toBe(3)
+  })
+
+  it("gives the same results for a re-captured snapshot", async () => {
+    const original = fixture()
+    const recaptured = await captureSnapshot(snapshotEnv(original))
+    const [a, b] = await Promise.all([replaySnapshot(original), replaySnapshot(recaptured)])
+    expect(b.results).toEqual(a.results)
+    expect(recaptured.facts).toEqual(original.facts)
+  })
+})
+
+describe("parseSnapshot", () => {
+  it("rejects anything but a version 1 snapshot", () => {
+    expect(() => parseSnapshot({ version: 2, facts: {} })).toThrow("Not a version 1 environment snapshot")
+    expect(() => parseSnapshot(null)).toThrow()
+  })
+})
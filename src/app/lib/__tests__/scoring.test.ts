@@ -0,0 +1,23 @@
+import { CHALLENGE_PASS_LR, summarize } from "../scoring"
+import { signal } from "../signals"
+
+describe("summarize (bayes)", () => {
+  it("scores a clean session low", () => {
+    const summary = summarize([signal("webdriver", "", false, 3), signal("plugins", "", false, 1.5)])
+    expect(summary.level).toBe("low")
+  })
+
+  it("makes hard evidence high", () => {
+    const summary = summarize([signal("webdriver", "", true, 3), signal("plugins", "", false, 1.5)])
+    expect(summary.level).toBe("high")
+    expect(summary.forcedBy).toContain("webdriver")
+  })
+
+  it("lowers the odds for a passed challenge", () => {
+    const base = [signal("plugins", "", true, 1.5), signal("languages", "", true, 1.5)]
+    const before = summarize(base).probability
+    const after = summarize([...base, signal("challenge", "", false, 3)]).probability
+    const odds = (p: number) => p / (1 - p)
+    expect(odds(after) / odds(before)).toBeCloseTo(CHALLENGE_PASS_LR, 1)
+  })
+})
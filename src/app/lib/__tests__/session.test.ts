@@ -0,0 +1,57 @@
+import { createHmac } from "crypto"
+import { issueSession, openEnvelope, SESSION_TTL_MS, verifyNonce, type EnvelopePayload } from "../session"
+
+const NOW = 1_760_000_000_000
+
+function seal(key: string, payload: Partial<EnvelopePayload>) {
+  const raw = JSON.stringify({ seq: 1, sealedAt: NOW, elapsedMs: 0, results: [], ...payload })
+  return { payload: raw, mac: createHmac("sha256", Buffer.from(key, "base64url")).update(raw).digest("base64url") }
+}
+
+describe("session envelopes", () => {
+  it("accepts a payload sealed with the session key", () => {
+    const { nonce, key } = issueSession(NOW)
+    expect(verifyNonce(nonce)).toBe(NOW)
+    const opened = openEnvelope(seal(key, { nonce }), NOW + 1000)
+    expect(opened).toMatchObject({ ok: true, payload: { nonce, seq: 1 } })
+  })
+
+  it("rejects forged nonces, edits and malformed input", () => {
+    const { nonce, key } = issueSession(NOW)
+    const forged = nonce.replace(/.$/, c => c === "A" ? "B" : "A")
+    expect(verifyNonce(forged)).toBeNull()
+    expect(openEnvelope(seal(key, { nonce: forged }), NOW)).toEqual({ ok: false, error: "bad-nonce" })
+
+    const sealed = seal(key, { nonce })
+    expect(openEnvelope({ ...sealed, payload: sealed.payload.replace('"results":[]', '"results":[{}]') }, NOW)).toEqual({ ok: false, error: "bad-mac" })
+    expect(openEnvelope({ payload: "{", mac: "" }, NOW)).toEqual({ ok: false, error: "malformed" })
+    expect(openEnvelope(null, NOW)).toEqual({ ok: false, error: "malformed" })
+  })
+
+  it("rejects replayed sequence numbers", () => {
+    const { nonce, key } = issueSession(NOW)
+    expect(openEnvelope(seal(key, { nonce, seq: 1 }), NOW).ok).toBe(true)
+    expect(openEnvelope(seal(key, { nonce, seq: 1 }), NOW)).toEqual({ ok: false, error: "replayed" })
+    expect(openEnvelope(seal(key, { nonce, seq: 2 }), NOW).ok).toBe(true)
+  })
+
+  it("accepts payloads sealed concurrently that arrive out of order", () => {
+    const { nonce, key } = issueSession(NOW)
+    for (const seq of [3, 1, 2]) expect(openEnvelope(seal(key, { nonce, seq }), NOW).ok).toBe(true)
+    expect(openEnvelope(seal(key, { nonce, seq: 2 }), NOW)).toEqual({ ok: false, error: "replayed" })
+  })
+
+  it("rejects sequence numbers that fell out of the window", () => {
+    const { nonce, key } = issueSession(NOW)
+    expect(openEnvelope(seal(key, { nonce, seq: 100 }), NOW).ok).toBe(true)
+    expect(openEnvelope(seal(key, { nonce, seq: 50 }), NOW)).toEqual({ ok: false, error: "replayed" })
+    expect(openEnvelope(seal(key, { nonce, seq: 0 }), NOW)).toEqual({ ok: false, error: "malformed" })
+  })
+
+  it("rejects expired sessions, stale payloads and impossible timings", () => {
+    const { nonce, key } = issueSession(NOW)
+    expect(openEnvelope(seal(key, { nonce, sealedAt: NOW + SESSION_TTL_MS }), NOW + SESSION_TTL_MS + 1)).toEqual({ ok: false, error: "expired" })
+    expect(openEnvelope(seal(key, { nonce, sealedAt: NOW }), NOW + 60_000)).toEqual({ ok: false, error: "stale" })
+    expect(openEnvelope(seal(key, { nonce, elapsedMs: 60_000 }), NOW + 1000)).toEqual({ ok: false, error: "implausible-timing" })
+  })
+})
@@ -0,0 +1,25 @@
+import type { InputRecord } from "../inputCollector"
+import { analyzeSyntheticInput } from "../syntheticInput"
+
+const untrusted = (records: InputRecord[]) => analyzeSyntheticInput(records, 0).find(s => s.id === "synthetic-untrusted")!
+
+const moves: InputRecord[] = Array.from({ length: 30 }, (_, i) => ({
+  type: "pointermove", t: 1000 + i * 16, trusted: true, x: 100 + i * 4, y: 200 + i, pointerType: "mouse",
+  pressure: 0, buttons: 0, coalesced: 1, movementX: 4, movementY: 1,
+}))
+
+describe("analyzeSyntheticInput", () => {
+  it("ignores one dispatched click next to real input", () => {
+    const records = [...moves, { type: "click", t: 1500, trusted: false, x: 0, y: 0 }]
+    expect(untrusted(records).suspicious).toBe(false)
+  })
+
+  it("flags repeated dispatched events", () => {
+    const events = [{ type: "blur", t: 1500, trusted: false }, { type: "focus", t: 1600, trusted: false }]
+    expect(untrusted([...moves, ...events])).toMatchObject({ suspicious: true, details: "untrusted=blur:1,focus:1 of 32" })
+  })
+
+  it("flags input that is only dispatched events", () => {
+    expect(untrusted([{ type: "blur", t: 1000, trusted: false }])).toMatchObject({ suspicious: true, severity: 1 })
+  })
+})
@@ -0,0 +1,32 @@
+import { measureClock } from "../timing"
+
+// A clock that advances by `step` ms every `readsPerTick` reads.
+function fakeClock(step: number, readsPerTick: number): jest.SpyInstance {
+  let reads = 0
+  return jest.spyOn(performance, "now").mockImplementation(() => Math.floor(reads++ / readsPerTick) * step)
+}
+
+afterEach(() => jest.restoreAllMocks())
+
+describe("measureClock", () => {
+  it("finds the step with one short burst per tick", async () => {
+    const now = fakeClock(0.1, 50)
+    const facts = await measureClock(4)
+    expect(facts.resolution).toBe(0.1)
+    // Each burst stops at the first tick instead of spinning for a fixed time.
+    expect(facts.samples).toBeLessThanOrEqual(4 * 51 + 1)
+    expect(now).toHaveBeenCalledTimes(facts.samples + 1)
+  })
+
+  it("caps a burst on a clock coarser than the burst and still sees its step between bursts", async () => {
+    fakeClock(100, 60_000)
+    const facts = await measureClock(3)
+    expect(facts.resolution).toBe(100)
+    expect(facts.samples).toBeLessThanOrEqual(3 * 50_001)
+  })
+
+  it("reports a clock that never advances", async () => {
+    jest.spyOn(performance, "now").mockReturnValue(5)
+    expect((await measureClock(2)).resolution).toBeNull()
+  })
+})
@@ -0,0 +1,29 @@
+import { analyzeTrajectory, toPointerSamples } from "../trajectory"
+import type { InputRecord } from "../inputCollector"
+
+const teleport = (records: InputRecord[]) => analyzeTrajectory(toPointerSamples(records)).find(s => s.id === "traj-teleport")!
+
+describe("analyzeTrajectory", () => {
+  it("does not count touch taps across the screen as teleports", () => {
+    const taps: InputRecord[] = [[40, 600], [300, 80], [40, 620], [320, 700], [60, 90]].flatMap(([x, y], i) => [
+      { type: "pointerdown", t: 1000 + i * 400, trusted: true, x, y, pointerType: "touch" },
+      { type: "pointermove", t: 1000 + i * 400 + 16, trusted: true, x: x + 2, y: y + 3, pointerType: "touch" },
+    ])
+    expect(teleport(taps)).toMatchObject({ suspicious: false, severity: 0 })
+  })
+
+  it("does not count a mouse re-entering the window after a pause", () => {
+    const moves: InputRecord[] = [
+      { type: "pointermove", t: 1000, trusted: true, x: 10, y: 10, pointerType: "mouse" },
+      { type: "pointermove", t: 1800, trusted: true, x: 900, y: 500, pointerType: "mouse" },
+    ]
+    expect(teleport(moves).severity).toBe(0)
+  })
+
+  it("flags mouse moves that jump between consecutive frames", () => {
+    const moves: InputRecord[] = [0, 1, 2, 3, 4, 5].map(i => ({
+      type: "pointermove", t: 1000 + i * 16, trusted: true, x: i % 2 ? 800 : 20, y: 300, pointerType: "mouse",
+    }))
+    expect(teleport(moves)).toMatchObject({ suspicious: true, severity: 1 })
+  })
+})
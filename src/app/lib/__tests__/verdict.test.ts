@@ -0,0 +1,86 @@
+import { signal } from "../signals"
+import { parseSignals, rescore, signVerdict, verifyVerdict } from "../verdict"
+
+const REQUIRED = ["webdriver", "ua-headless", "automation-globals", "plugins", "languages", "webgl", "nav-lies", "automation-bindings"]
+const clean = () => REQUIRED.map(id => signal(id, id, false, 0))
+
+describe("parseSignals", () => {
+  it("drops client weights and clamps severity", () => {
+    const parsed = parseSignals({ results: [{ id: "webgl", suspicious: true, weight: 0.01, severity: 4, details: "x".repeat(900) }] })
+    expect(parsed).toEqual([{ id: "webgl", name: "webgl", suspicious: true, weight: 0, severity: 1, details: "x".repeat(500) }])
+  })
+
+  it("rejects malformed payloads", () => {
+    expect(parseSignals({})).toBeNull()
+    expect(parseSignals({ results: [{ id: "webgl" }] })).toBeNull()
+    expect(parseSignals({ results: [{ id: 1, suspicious: true }] })).toBeNull()
+    expect(parseSignals({ results: Array.from({ length: 201 }, () => ({ id: "webgl", suspicious: false })) })).toBeNull()
+  })
+})
+
+describe("rescore", () => {
+  it("uses server weights and scores a clean payload low", () => {
+    const { results, summary } = rescore(clean())
+    expect(results.find(r => r.id === "webdriver")?.weight).toBe(3)
+    expect(summary.level).toBe("low")
+  })
+
+  it("treats omitted core signals as suspicious", () => {
+    const { results, summary } = rescore(clean().filter(s => s.id !== "webdriver"))
+    expect(results.find(r => r.id === "webdriver")).toMatchObject({ suspicious: true, details: "signal omitted from payload" })
+    expect(summary.level).toBe("high")
+  })
+
+  it("ignores unknown ids, duplicates and client-sent header or challenge signals", () => {
+    const client = [
+      ...clean(),
+      signal("made-up", "", true, 5),
+      signal("webgl", "", true, 0),
+      signal("hdr-user-agent", "", false, 0),
+      signal("challenge", "", false, 0),
+    ]
+    const { results } = rescore(client, [signal("hdr-user-agent", "", true, 0)])
+    expect(results.map(r => r.id)).not.toContain("made-up")
+    expect(results.filter(r => r.id === "webgl")).toEqual([expect.objectContaining({ suspicious: false })])
+    expect(results.filter(r => r.id === "hdr-user-agent")).toEqual([expect.objectContaining({ suspicious: true })])
+    expect(results.map(r => r.id)).not.toContain("challenge")
+  })
+
+  it("keeps probe results under their base id weight", () => {
+    const { results } = rescore([...clean(), signal("probe-no-input-probe-1-1760000000000", "", true, 0)])
+    expect(results.find(r => r.id.startsWith("probe-no-input"))?.weight).toBe(3)
+  })
+
+  it("decays probe evidence by its age like the page does and drops what has faded out", () => {
+    const probe = (age: number, i: number) => ({ ...signal(`probe-no-input-probe-${i}-1760000000000`, "", true, 0), age })
+    const { results } = rescore([...clean(), probe(0, 0), probe(120_000, 1), probe(60 * 60_000, 2)])
+    expect(results.filter(r => r.id.startsWith("probe-no-input")).map(r => r.weight)).toEqual([3, 1.5])
+    expect(parseSignals({ results: [{ id: "webgl", suspicious: true, age: -5 }] })?.[0].age).toBeUndefined()
+  })
+
+  it("applies the served detector config", () => {
+    const { results } = rescore(clean(), [], { detectors: { webgl: { weight: 4 }, plugins: { enabled: false } } })
+    expect(results.find(r => r.id === "webgl")?.weight).toBe(4)
+    expect(results.find(r => r.id === "plugins")).toBeUndefined()
+  })
+})
+
+describe("verdict tokens", () => {
+  const ua = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/124.0.0.0"
+
+  it("round-trips the summary claims", () => {
+    const { summary } = rescore(clean())
+    const { token } = signVerdict(summary, ua, 1000)
+    expect(verifyVerdict(token, ua, 2000)).toMatchObject({ level: "low", probability: summary.probability, iat: 1000 })
+  })
+
+  it("rejects expired or edited tokens and other User-Agents", () => {
+    const { summary } = rescore(clean())
+    const { token, expiresAt } = signVerdict(summary, ua, 1000)
+    expect(verifyVerdict(token, ua, expiresAt + 1)).toBeNull()
+    expect(verifyVerdict(token, "another browser", 2000)).toBeNull()
+    const [version, body, sig] = token.split(".")
+    const edited = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(body, "base64url").toString()), level: "low", probability: 0 })).toString("base64url")
+    expect(verifyVerdict(`${version}.${edited}.${sig}`, ua, 2000)).toBeNull()
+  })
+})
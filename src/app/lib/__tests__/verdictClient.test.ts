@@ -0,0 +1,35 @@
+import { requestVerdict } from "../verdictClient"
+
+const SESSION = { nonce: "n1", key: Buffer.alloc(32, 7).toString("base64url"), expiresAt: Date.now() + 60_000 }
+const VERDICT = { token: "t", summary: { level: "low" }, results: [], expiresAt: Date.now() + 60_000 }
+
+// Answers /api/session from `sessions` in order (false fails it) and every verdict with VERDICT.
+function mockApi(sessions: boolean[]): jest.Mock {
+  const fetch = jest.fn(async (url: string) => {
+    const ok = url.endsWith("/api/session") ? sessions.shift() ?? false : true
+    const body = url.endsWith("/api/session") ? SESSION : VERDICT
+    return { ok, json: async () => ok ? body : { error: "unavailable" } }
+  })
+  Object.assign(globalThis, { fetch, navigator: { userAgent: "test", languages: ["en"], maxTouchPoints: 0 } })
+  return fetch
+}
+
+const sessionCalls = (fetch: jest.Mock) => fetch.mock.calls.filter(([url]) => url.endsWith("/api/session")).length
+
+describe("requestVerdict sessions", () => {
+  it("retries a failed session open once", async () => {
+    const fetch = mockApi([false, true])
+    await expect(requestVerdict([], "https://a.test")).resolves.toEqual(VERDICT)
+    expect(sessionCalls(fetch)).toBe(2)
+  })
+
+  it("does not keep a failed session for later callers", async () => {
+    const fetch = mockApi([false, false, true])
+    const [first, second] = await Promise.all([requestVerdict([], "https://b.test"), requestVerdict([], "https://b.test")])
+    expect([first, second]).toEqual([null, null])
+    expect(sessionCalls(fetch)).toBe(2)
+
+    await expect(requestVerdict([], "https://b.test")).resolves.toEqual(VERDICT)
+    expect(sessionCalls(fetch)).toBe(3)
+  })
+})
@@ -1,245 +1,263 @@
-export type SignalResult = {
-  id: string
-  name: string
-  suspicious: boolean
-  weight: number
-  details?: string
+import { applyBaseline, claimPlatform, evaluateCoherence, PLATFORM_BASELINES, touchPlausible } from "./coherence"
+import { compareContexts, REALM_TIMEOUT_MS, type ContextFacts } from "./crossContext"
+import { isDebugMode } from "./debug"
+import { DetectorRegistry, type DetectorDefinition, type RunOptions } from "./detectorRegistry"
+import { liveEnv, PROBED_GLOBALS, snapshotEnv, type DetectionEnv, type EnvSnapshot } from "./env"
+import { getInputCollector, type InputCollector, type InputRecord } from "./inputCollector"
+import { describeHits, toolsOf } from "./instrumentation"
+import type { IntegrityCheck, IntegrityLie } from "./integrity"
+import { analyzeKeystrokes, toKeySamples } from "./keystrokes"
+import { summarize, type Summary } from "./scoring"
+import { gradedSignal, signal, type SignalResult } from "./signals"
+import { analyzeSyntheticInput } from "./syntheticInput"
+import { analyzeClock, analyzeFrames, analyzeTimers, FRAME_TIMEOUT_MS } from "./timing"
+import { analyzeTrajectory, toPointerSamples } from "./trajectory"
+import { SIGNAL_WEIGHTS } from "./weights"
+
+export { gradedSignal, signal, type SignalResult } from "./signals"
+export { summarize, type Summary } from "./scoring"
+
+export const LEVEL_LABELS: Record<Summary["level"], string> = {
+  low: "Human",
+  medium: "Suspicious",
+  high: "Automated",
 }
 
-export type Summary = {
-  score: number
-  max: number
-  level: "low" | "medium" | "high"
+export function detectWebdriver(env: DetectionEnv = liveEnv): SignalResult {
+  // Only the reported value; a script that redefines it is caught by detectNavigatorLies.
+  const nav = env.navigator()
+  return signal("webdriver", "navigator.webdriver is true", nav.webdriver === true, SIGNAL_WEIGHTS.webdriver, `value=${String(nav.webdriver ?? undefined)}`)
 }
 
-const UA = () => (typeof navigator !== "undefined" ? navigator.userAgent : "")
-const isIOS = () => /iP(hone|ad|od)/i.test(UA())
-const isMobileUA = () => /(Android|iPhone|iPad|Mobile)/i.test(UA())
+export const AUTOMATION_UA_PATTERNS = [
+  "headlesschrome", "puppeteer", "playwright", "selenium",
+  "phantom", "electron", "bot", "crawler", "spider",
+  "slurp", "percy", "headless"
+]
 
-function signal(
-  id: string,
-  name: string,
-  suspicious: boolean,
-  weight: number,
-  details?: string
-): SignalResult {
-  return { id, name, suspicious, weight, details }
+export function detectHeadlessUA(env: DetectionEnv = liveEnv): SignalResult {
+  const ua = env.navigator().userAgent.toLowerCase()
+  const hit = AUTOMATION_UA_PATTERNS.some(p => ua.includes(p))
+  return signal("ua-headless", "User-Agent hints at automation", hit, SIGNAL_WEIGHTS["ua-headless"], hit ? `UA=${ua}` : undefined)
 }
 
-type MaybeNavigator = Navigator & {
-  webdriver?: boolean
-  deviceMemory?: number
-  maxTouchPoints?: number
-  languages?: string[]
-  plugins?: PluginArray | { length: number }
-  permissions?: unknown
+export function detectAutomationGlobals(env: DetectionEnv = liveEnv): SignalResult {
+  const found = env.window().globals.filter(k => PROBED_GLOBALS.includes(k))
+  return signal("automation-globals", "Common automation globals present", found.length > 0, SIGNAL_WEIGHTS["automation-globals"], found.length ? `found=${found.join(",")}` : undefined)
 }
 
-type MaybeWindow = Window & {
-  chrome?: { app?: { isInstalled?: boolean } }
+export function detectAutomationBindings(env: DetectionEnv = liveEnv): SignalResult {
+  const hits = env.instrumentation().hits
+  const tools = toolsOf(hits)
+  return signal("automation-bindings", `Automation tool bindings present${tools.length ? ` (${tools.join(", ")})` : ""}`, hits.length > 0, SIGNAL_WEIGHTS["automation-bindings"], hits.length ? describeHits(hits) : undefined)
 }
 
-
-export function detectWebdriver(): SignalResult {
-  const wd = (navigator as MaybeNavigator).webdriver === true
-  const suspect = wd || "webdriver" in navigator
-  return signal("webdriver", "navigator.webdriver present", suspect, 3, `value=${String(wd)}`)
+export function detectCDPRuntime(env: DetectionEnv = liveEnv): SignalResult {
+  const { runtimeEnabled } = env.instrumentation()
+  // Open DevTools trips this too, so it is a weak hint on its own.
+  return signal("cdp-runtime", "Console serialized by a DevTools protocol client (cdp)", runtimeEnabled === true, SIGNAL_WEIGHTS["cdp-runtime"], `runtimeEnabled=${String(runtimeEnabled)}`)
 }
 
-export function detectHeadlessUA(): SignalResult {
-  const ua = UA().toLowerCase()
-  const patterns = [
-    "headlesschrome", "puppeteer", "playwright", "selenium",
-    "phantom", "electron", "bot", "crawler", "spider",
-    "slurp", "percy", "headless"
-  ]
-  const hit = patterns.some(p => ua.includes(p))
-  return signal("ua-headless", "User-Agent hints at automation", hit, 2, hit ? `UA=${ua}` : undefined)
-}
+const FUNCTION_CHECKS: IntegrityCheck[] = ["native", "proxy", "to-string"]
 
-export function detectAutomationGlobals(): SignalResult {
-  const g = window as any
-  const suspects = [
-    "callPhantom", "__nightmare", "__driver_evaluate",
-    "__selenium_unwrapped", "__phantomas", "__PLAYWRIGHT_GLOBAL__",
-    "Puppeteer", "__puppeteer_evaluate"
-  ]
-  const found = suspects.filter(k => k in g)
-  return signal("automation-globals", "Common automation globals present", found.length > 0, 3, found.length ? `found=${found.join(",")}` : undefined)
+const describeLies = (lies: IntegrityLie[]) => lies.map(l => `${l.target} (${l.check})`).join(", ")
+
+// A failed integrity read (or a snapshot from before it was recorded) is left to the
+// registry, which reports it as a failed detector rather than as a lie.
+export function detectFunctionTampering(env: DetectionEnv = liveEnv): SignalResult {
+  const lies = env.integrity().lies.filter(l => FUNCTION_CHECKS.includes(l.check))
+  return signal("fn-tamper", "Native functions patched or proxied", lies.length > 0, SIGNAL_WEIGHTS["fn-tamper"], lies.length ? describeLies(lies) : undefined)
 }
 
-export function detectFunctionTampering(): SignalResult {
-  try {
-    const pluginsItem = typeof (navigator as any).plugins?.item === "function"
-    const mimeItem = typeof (navigator as any).mimeTypes?.item === "function"
-    const suspect = !pluginsItem || !mimeItem || pluginsItem.toString().includes("native code") === false
-    return signal("fn-tamper", "Navigator functions tampered", suspect, 1.5, `plugins.item=${String(pluginsItem)}, mime.item=${String(mimeItem)}`)
-  } catch {
-    return signal("fn-tamper", "Navigator tamper check failed", true, 1.5)
-  }
+export function detectNavigatorLies(env: DetectionEnv = liveEnv): SignalResult {
+  const { lies, iframe } = env.integrity()
+  const found = lies.filter(l => !FUNCTION_CHECKS.includes(l.check))
+  return signal("nav-lies", "Navigator properties redefined", found.length > 0, SIGNAL_WEIGHTS["nav-lies"], found.length ? describeLies(found) : `iframe=${iframe}`)
 }
 
-export function detectPluginsAnomaly(): SignalResult {
-  const len = (navigator as MaybeNavigator).plugins?.length ?? 0
-  const suspect = len === 0 && !isIOS()
-  const weight = isIOS() ? 0.5 : 1.5
-  return signal("plugins", "No browser plugins detected", suspect, weight, `plugins.length=${len}`)
+// Platforms without plugins (older iOS, Android) are discounted by their coherence baseline.
+export function detectPluginsAnomaly(env: DetectionEnv = liveEnv): SignalResult {
+  const len = env.navigator().pluginsLength
+  return signal("plugins", "No browser plugins detected", len === 0, SIGNAL_WEIGHTS.plugins, `plugins.length=${len}`)
 }
 
-export function detectLanguagesAnomaly(): SignalResult {
-  const langs = ((navigator as MaybeNavigator).languages || []).filter(Boolean)
+export function detectLanguagesAnomaly(env: DetectionEnv = liveEnv): SignalResult {
+  const langs = env.navigator().languages.filter(Boolean)
   const suspect = langs.length === 0 || langs.some(l => l.length < 2)
-  return signal("languages", "Empty or short navigator.languages", suspect, 1.5, `languages=${langs.join(",")}`)
+  return signal("languages", "Empty or short navigator.languages", suspect, SIGNAL_WEIGHTS.languages, `languages=${langs.join(",")}`)
 }
 
-function getWebGLInfo(): { vendor?: string, renderer?: string, extCount?: number } {
-  try {
-    const canvas = document.createElement("canvas")
-    const gl = (canvas.getContext("webgl") || canvas.getContext("experimental-webgl")) as WebGLRenderingContext | null
-    if (!gl) return {}
-    const ext = gl.getExtension("WEBGL_debug_renderer_info")
-    const vendor = ext ? gl.getParameter(ext.UNMASKED_VENDOR_WEBGL) : ""
-    const renderer = ext ? gl.getParameter(ext.UNMASKED_RENDERER_WEBGL) : ""
-    return { vendor, renderer, extCount: gl.getSupportedExtensions()?.length ?? 0 }
-  } catch { return {} }
-}
-
-export function detectWebGLBlacklist(): SignalResult {
-  const { vendor = "", renderer = "", extCount = 0 } = getWebGLInfo()
+export function detectWebGLBlacklist(minExtensions = 20, env: DetectionEnv = liveEnv): SignalResult {
+  const { vendor = "", renderer = "", extCount = 0 } = env.webgl()
   const r = `${vendor} ${renderer}`.toLowerCase()
   const blacklist = ["swiftshader", "llvmpipe", "mesa", "software rasterizer", "virtualbox", "vmware", "parallels"]
-  const hit = blacklist.some(b => r.includes(b)) || extCount < 20
-  return signal("webgl", "WebGL vendor/renderer looks virtualized", hit, 2.5, `${vendor} | ${renderer}, ext=${extCount}`)
-}
-
-export function detectTouchMismatch(): SignalResult {
-  const maxTouch = (navigator as MaybeNavigator).maxTouchPoints ?? 0
-  const suspect = isMobileUA() && maxTouch === 0
-  const mild = !isMobileUA() && maxTouch >= 5
-  const weight = suspect ? 2 : mild ? 1 : 0
-  return signal("touch", "UA vs maxTouchPoints mismatch", suspect || mild, weight, `maxTouchPoints=${maxTouch}`)
-}
-
-export function detectTimezoneAvailable(): SignalResult {
-  let tz: string | undefined
-  try { tz = Intl.DateTimeFormat().resolvedOptions().timeZone } catch {}
+  const hit = blacklist.some(b => r.includes(b)) || extCount < minExtensions
+  return signal("webgl", "WebGL vendor/renderer looks virtualized", hit, SIGNAL_WEIGHTS.webgl, `${vendor} | ${renderer}, ext=${extCount}`)
+}
+
+// Compares what the main thread reports (the values detectHeadlessUA, detectDeviceSpecs
+// and detectWebGLBlacklist use) with a worker and a sandboxed iframe.
+export async function detectCrossContextMismatch(env: DetectionEnv = liveEnv): Promise<SignalResult> {
+  const nav = env.navigator()
+  const { vendor, renderer } = env.webgl()
+  const main: ContextFacts = {
+    userAgent: nav.userAgent,
+    languages: nav.languages,
+    hardwareConcurrency: nav.hardwareConcurrency,
+    platform: nav.platform,
+    timeZone: env.timeZone(),
+    webglVendor: vendor || null,
+    webglRenderer: renderer || null,
+  }
+  const realms = await env.realms(REALM_TIMEOUT_MS)
+  const diffs = (["worker", "iframe"] as const).flatMap(realm => {
+    const other = realms[realm]
+    return other ? compareContexts(main, other).map(field => `${realm}.${field}=${JSON.stringify(other[field])} vs ${JSON.stringify(main[field])}`) : []
+  })
+  const checked = `worker=${realms.worker ? "ok" : "unavailable"}, iframe=${realms.iframe ? "ok" : "unavailable"}`
+  return signal("cross-context", "Navigator differs between main thread and other realms", diffs.length > 0, SIGNAL_WEIGHTS["cross-context"], diffs.length ? diffs.join("; ") : checked)
+}
+
+async function claimedPlatform(env: DetectionEnv) {
+  const nav = env.navigator()
+  return claimPlatform(nav.userAgent, await env.clientHints(), nav.maxTouchPoints)
+}
+
+export function detectTouchMismatch(env: DetectionEnv = liveEnv): SignalResult {
+  const { maxTouchPoints, userAgent } = env.navigator()
+  const claim = claimPlatform(userAgent, null, maxTouchPoints)
+  const [min, max] = PLATFORM_BASELINES[claim.os].touchPoints
+  return signal("touch", "UA vs maxTouchPoints mismatch", !touchPlausible(claim, maxTouchPoints), SIGNAL_WEIGHTS.touch, `maxTouchPoints=${maxTouchPoints}, expected ${min}-${max} on ${claim.os}`)
+}
+
+// Whether the UA, Client Hints, GPU, screen, fonts and navigator.platform describe one device.
+export async function detectPlatformCoherence(env: DetectionEnv = liveEnv): Promise<SignalResult> {
+  const nav = env.navigator()
+  const claim = await claimedPlatform(env)
+  const issues = evaluateCoherence(claim, {
+    navigatorPlatform: nav.platform,
+    webglRenderer: env.webgl().renderer,
+    screen: env.screen(),
+    maxTouchPoints: nav.maxTouchPoints,
+    fonts: env.fonts(),
+  }).filter(i => i.field !== "touch") // reported by the touch detector
+  const details = issues.length ? issues.map(i => `${i.field}: ${i.details}`).join("; ") : `${claim.os} ${claim.deviceClass} (${claim.source})`
+  return gradedSignal("coherence", "Platform properties contradict each other", issues.length / 3, 1 / 3, SIGNAL_WEIGHTS.coherence, details)
+}
+
+export function detectTimezoneAvailable(env: DetectionEnv = liveEnv): SignalResult {
+  let tz: string | null = null
+  try { tz = env.timeZone() } catch {}
   const suspect = !tz || typeof tz !== "string" || tz.length < 3
-  return signal("timezone", "Timezone unavailable", suspect, 1, `timeZone=${tz || "n/a"}`)
+  return signal("timezone", "Timezone unavailable", suspect, SIGNAL_WEIGHTS.timezone, `timeZone=${tz || "n/a"}`)
 }
 
-export function detectScreenResolution(): SignalResult {
-  const w = window.screen.width
-  const h = window.screen.height
+export function detectScreenResolution(env: DetectionEnv = liveEnv): SignalResult {
+  const { width: w, height: h } = env.screen()
   const suspect = w < 300 || h < 200 || w > 7680 || h > 4320
-  return signal("screen", "Unlikely screen resolution", suspect, 1, `width=${w}, height=${h}`)
+  return signal("screen", "Unlikely screen resolution", suspect, SIGNAL_WEIGHTS.screen, `width=${w}, height=${h}`)
 }
 
-export function detectDeviceSpecs(): SignalResult {
-  const cores = navigator.hardwareConcurrency ?? 1
-  const memory = (navigator as MaybeNavigator).deviceMemory ?? 1
+export function detectDeviceSpecs(env: DetectionEnv = liveEnv): SignalResult {
+  const nav = env.navigator()
+  const cores = nav.hardwareConcurrency ?? 1
+  const memory = nav.deviceMemory ?? 1
   const suspect = cores <= 1 || memory <= 1
-  return signal("device-specs", "Low device cores/memory", suspect, 1, `cores=${cores}, memory=${memory}GB`)
+  return signal("device-specs", "Low device cores/memory", suspect, SIGNAL_WEIGHTS["device-specs"], `cores=${cores}, memory=${memory}GB`)
 }
 
-export function detectChromeApp(): SignalResult {
-  const installed = (window as MaybeWindow).chrome?.app?.isInstalled
+export function detectChromeApp(env: DetectionEnv = liveEnv): SignalResult {
+  const installed = env.window().chromeAppInstalled
   const suspect = installed === false
-  return signal("chrome-app", "Chrome app detection", suspect, 1, `isInstalled=${String(installed ?? "n/a")}`)
+  return signal("chrome-app", "Chrome app detection", suspect, SIGNAL_WEIGHTS["chrome-app"], `isInstalled=${String(installed ?? "n/a")}`)
+}
+
+export function detectPermissionsAPI(env: DetectionEnv = liveEnv): SignalResult {
+  return signal("permissions-api", "navigator.permissions missing", !env.navigator().permissions, SIGNAL_WEIGHTS["permissions-api"])
+}
+
+export function detectWebRTC(env: DetectionEnv = liveEnv): SignalResult {
+  return signal("webrtc", "WebRTC not available", !env.window().rtcPeerConnection, SIGNAL_WEIGHTS.webrtc)
+}
+
+export async function detectPerformanceNowDrift(env: DetectionEnv = liveEnv): Promise<SignalResult> {
+  const { delta, wall } = await env.timerDrift(50)
+  return signal("perf-drift", "Performance.now drift anomaly", Math.abs(delta - wall) > 5, SIGNAL_WEIGHTS["perf-drift"], `delta≈${delta.toFixed(2)}ms, wall=${wall}ms`)
 }
 
-export function detectPermissionsAPI(): SignalResult {
-  return signal("permissions-api", "navigator.permissions missing", !("permissions" in navigator), 1)
+export async function detectFrameCadence(env: DetectionEnv = liveEnv): Promise<SignalResult> {
+  return analyzeFrames(await env.frames(), await claimedPlatform(env))
 }
 
-export function detectWebRTC(): SignalResult {
-  return signal("webrtc", "WebRTC not available", !("RTCPeerConnection" in window), 1)
+export async function detectClockResolution(env: DetectionEnv = liveEnv): Promise<SignalResult> {
+  return analyzeClock(await env.clock(), await claimedPlatform(env))
 }
 
-export function detectPerformanceNowDrift(): SignalResult {
-  const start = performance.now()
-  const delay = 50
-  const t0 = Date.now()
-  while (Date.now() - t0 < delay) {}
-  const delta = performance.now() - start
-  return signal("perf-drift", "Performance.now drift anomaly", Math.abs(delta - delay) > 5, 2, `delta≈${delta.toFixed(2)}ms`)
+export async function detectTimerThrottling(env: DetectionEnv = liveEnv): Promise<SignalResult> {
+  return analyzeTimers(await env.timers(), await claimedPlatform(env))
 }
 
-export function detectCanvasFingerprint(): SignalResult {
+// Identical drawings must produce identical pixels; per-read noise means the canvas is
+// being randomized. The fingerprint itself lives in fingerprint.ts.
+export function detectCanvasFingerprint(env: DetectionEnv = liveEnv): SignalResult {
   try {
-    const canvas = document.createElement("canvas")
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return signal("canvas", "Canvas unavailable", true, 2)
-    ctx.textBaseline = "top"
-    ctx.font = "14px 'Arial'"
-    ctx.fillText("bot-check", 2, 2)
-    const data = canvas.toDataURL()
-    const hash = Array.from(data).reduce((a,c)=> (a + c.charCodeAt(0)) % 9973, 0)
-    return signal("canvas-fp", "Canvas fingerprint entropy", hash<1000 || hash>9000, 1.5, `hash=${hash}`)
-  } catch { return signal("canvas-fp", "Canvas failed", true, 2) }
+    const canvas = env.canvas()
+    if (canvas === null) return signal("canvas-fp", "Canvas unavailable", true, SIGNAL_WEIGHTS["canvas-fp"])
+    return signal("canvas-fp", "Canvas output changes between identical draws", !canvas.stable, SIGNAL_WEIGHTS["canvas-fp"], `stable=${canvas.stable}, bytes=${canvas.dataUrl.length}`)
+  } catch { return signal("canvas-fp", "Canvas failed", true, SIGNAL_WEIGHTS["canvas-fp"]) }
 }
 
-export function detectMediaDevices(): SignalResult {
-  const hasMedia = !!(navigator.mediaDevices?.enumerateDevices)
-  return signal("media-devices", "Media devices available", !hasMedia, 1)
+export function detectMediaDevices(env: DetectionEnv = liveEnv): SignalResult {
+  return signal("media-devices", "Media devices available", !env.navigator().mediaDevices, SIGNAL_WEIGHTS["media-devices"])
 }
 
-export function detectFontEnumeration(): SignalResult {
+export function detectFontEnumeration(env: DetectionEnv = liveEnv): SignalResult {
   try {
-    const el = document.createElement("span")
-    el.style.fontFamily = "Arial, 'Times New Roman', monospace"
-    el.innerText = "font-check"
-    document.body.appendChild(el)
-    const w = el.offsetWidth
-    document.body.removeChild(el)
-    return signal("font-probe", "Font metric anomaly", !w || w < 10, 0.5, `width=${w}`)
-  } catch { return signal("font-probe", "Font probe failed", true, 0.5) }
+    const w = env.fontWidth()
+    return signal("font-probe", "Font metric anomaly", !w || w < 10, SIGNAL_WEIGHTS["font-probe"], `width=${w}`)
+  } catch { return signal("font-probe", "Font probe failed", true, SIGNAL_WEIGHTS["font-probe"]) }
 }
 
-export function detectAudioContext(): SignalResult {
+export function detectAudioContext(env: DetectionEnv = liveEnv): SignalResult {
   try {
-    const AC = (window as any).AudioContext || (window as any).webkitAudioContext
-    if (!AC) return signal("audio", "AudioContext missing", true, 0.5)
-    const ctx = new AC()
-    const allowed = typeof ctx.createAnalyser === "function"
-    ctx.close?.()
-    return signal("audio", "AudioContext feature check", !allowed, 0.5)
-  } catch { return signal("audio", "AudioContext error", true, 0.5) }
+    const { available, analyser } = env.audio()
+    if (!available) return signal("audio", "AudioContext missing", true, SIGNAL_WEIGHTS.audio)
+    return signal("audio", "AudioContext feature check", !analyser, SIGNAL_WEIGHTS.audio)
+  } catch { return signal("audio", "AudioContext error", true, SIGNAL_WEIGHTS.audio) }
+}
+
+
+export type ProbeOptions = {
+  signal?: AbortSignal
+  collector?: InputCollector
 }
 
+const ACTIVITY_TYPES = new Set(["pointermove", "click", "keydown", "scroll"])
 
-export async function startActivityProbe(ms = 5000): Promise<SignalResult[]> {
+export function analyzeActivity(records: InputRecord[], ms: number): SignalResult[] {
   let moves=0, clicks=0, keys=0, scrolls=0, lastPos={x:-1,y:-1}, tinyMoves=0
-  const intervals:number[]=[]; let lastT=0
-
-  const record = (pos?:{x:number,y:number})=>{
-    const t = performance.now()
-    if(lastT) intervals.push(t-lastT)
-    lastT=t
-    if(pos && lastPos.x>=0){
-      const dx=Math.abs(pos.x-lastPos.x)
-      const dy=Math.abs(pos.y-lastPos.y)
-      if(dx<=1 && dy<=1) tinyMoves++
+  // Replayed recordings start at t=0, so 0 is a real timestamp here.
+  const intervals:number[]=[]; let lastT:number|undefined
+
+  for(const r of records){
+    if(!r.trusted || !ACTIVITY_TYPES.has(r.type)) continue
+    if(lastT!==undefined) intervals.push(r.t-lastT)
+    lastT=r.t
+    if(r.type==="pointermove"){
+      moves++
+      const pos={x:r.x??0,y:r.y??0}
+      if(lastPos.x>=0){
+        const dx=Math.abs(pos.x-lastPos.x)
+        const dy=Math.abs(pos.y-lastPos.y)
+        if(dx<=1 && dy<=1) tinyMoves++
+      }
       lastPos=pos
     }
+    else if(r.type==="click") clicks++
+    else if(r.type==="keydown") keys++
+    else scrolls++
   }
 
-  const onMove=(e:PointerEvent)=>{moves++; record({x:e.clientX,y:e.clientY})}
-  const onClick=()=>{clicks++; record()}
-  const onKey=()=>{keys++; record()}
-  const onScroll=()=>{scrolls++; record()}
-
-  window.addEventListener("pointermove", onMove)
-  window.addEventListener("click", onClick)
-  window.addEventListener("keydown", onKey)
-  window.addEventListener("scroll", onScroll)
-
-  await new Promise(r=>setTimeout(r, ms))
-
-  window.removeEventListener("pointermove", onMove)
-  window.removeEventListener("click", onClick)
-  window.removeEventListener("keydown", onKey)
-  window.removeEventListener("scroll", onScroll)
-
   const mean = intervals.length>0 ? intervals.reduce((a,b)=>a+b,0)/intervals.length : 0
   const variance = intervals.length>1 ? intervals.reduce((acc,v)=>acc+(v-mean)**2,0)/(intervals.length-1) : 0
   const sum = intervals.reduce((a,b)=>a+b,0)
@@ -251,61 +269,128 @@ export async function startActivityProbe(ms = 5000): Promise<SignalResult[]> {
   const excessiveTinyMoves = tinyMoves>Math.max(10,Math.floor(moves*0.5))
 
   return [
-    signal("probe-no-input", `No input during ${Math.round(ms/1000)}s`, noInput, 3, `moves=${moves}, clicks=${clicks}, keys=${keys}, scrolls=${scrolls}`),
-    signal("probe-regularity", "Low entropy in input timing", tooRegular, 1.5, `n=${intervals.length}, var=${variance.toFixed(1)}, H=${entropy.toFixed(2)}`),
-    signal("probe-impossible-speed", "Impossible input speed detected", impossibleSpeed, 2, `minInterval=${Math.min(...(intervals.length?intervals:[Infinity]))}`),
-    signal("probe-jitter", "Too many tiny pointer movements", excessiveTinyMoves, 1.5, `tinyMoves=${tinyMoves}, moves=${moves}`)
+    signal("probe-no-input", `No input during ${Math.round(ms/1000)}s`, noInput, SIGNAL_WEIGHTS["probe-no-input"], `moves=${moves}, clicks=${clicks}, keys=${keys}, scrolls=${scrolls}`),
+    signal("probe-regularity", "Low entropy in input timing", tooRegular, SIGNAL_WEIGHTS["probe-regularity"], `n=${intervals.length}, var=${variance.toFixed(1)}, H=${entropy.toFixed(2)}`),
+    signal("probe-impossible-speed", "Impossible input speed detected", impossibleSpeed, SIGNAL_WEIGHTS["probe-impossible-speed"], `minInterval=${Math.min(...(intervals.length?intervals:[Infinity]))}`),
+    signal("probe-jitter", "Too many tiny pointer movements", excessiveTinyMoves, SIGNAL_WEIGHTS["probe-jitter"], `tinyMoves=${tinyMoves}, moves=${moves}`)
   ]
 }
 
-export async function detectFocusBlurPatterns(ms=3000): Promise<SignalResult> {
-  let lostFocus=false
-  window.addEventListener("blur",()=>lostFocus=true)
-  await new Promise(r=>setTimeout(r, ms))
-  return signal("focus-blur","Did user lose focus?",lostFocus,0.5)
+const trustedOf = (records: InputRecord[], type: string) => records.some(r => r.trusted && r.type === type)
+
+export function analyzeFocusBlur(records: InputRecord[]): SignalResult {
+  return signal("focus-blur","Did user lose focus?",trustedOf(records,"blur"),SIGNAL_WEIGHTS["focus-blur"])
 }
 
-export async function detectResizeEvents(ms=3000): Promise<SignalResult> {
-  let resized=false
-  window.addEventListener("resize",()=>resized=true)
-  await new Promise(r=>setTimeout(r, ms))
-  return signal("resize","Did user resize window?",resized,0.5)
+export function analyzeResize(records: InputRecord[]): SignalResult {
+  return signal("resize","Did user resize window?",trustedOf(records,"resize"),SIGNAL_WEIGHTS.resize)
 }
 
-export async function detectTouchGestures(ms=3000): Promise<SignalResult> {
-  let pinch=false
-  window.addEventListener("gesturestart",()=>pinch=true)
-  await new Promise(r=>setTimeout(r, ms))
-  return signal("touch-gestures","User performed touch gestures?",pinch,1)
+export function analyzeTouchGestures(records: InputRecord[]): SignalResult {
+  return signal("touch-gestures","User performed touch gestures?",trustedOf(records,"gesturestart"),SIGNAL_WEIGHTS["touch-gestures"])
 }
 
+export function analyzeScrollCadence(records: InputRecord[]): SignalResult {
+  const scrolls = records.filter(r => r.trusted && r.type === "scroll")
+  const rapid = scrolls.some((r, i) => i > 0 && r.t - scrolls[i - 1].t < 50)
+  return signal("micro-scroll-patterns", "Scroll pattern abnormal?", rapid, SIGNAL_WEIGHTS["micro-scroll-patterns"])
+}
 
-export function summarize(results: SignalResult[]): Summary {
-  const score = results.reduce((a,s)=>a+(s.suspicious?s.weight:0),0)
-  const max = results.reduce((a,s)=>a+s.weight,0)
-  const ratio = max>0 ? score/max : 0
-  const level = ratio>=0.7 ? "high" : ratio>=0.4 ? "medium" : "low"
-  return { score:+score.toFixed(1), max:+max.toFixed(1), level }
+export function analyzeHoverDuration(records: InputRecord[]): SignalResult {
+  let hoverStart: number | undefined
+  let longHover = false
+  for (const r of records) {
+    if (!r.trusted) continue
+    if (r.type === "mouseover") hoverStart = r.t
+    else if (r.type === "mouseout" && hoverStart !== undefined) {
+      if (r.t - hoverStart > 2000) longHover = true
+      hoverStart = undefined
+    }
+  }
+  return signal("micro-hover-duration", "Hovered too long on elements?", longHover, SIGNAL_WEIGHTS["micro-hover-duration"])
 }
 
-export function runStaticDetections(): SignalResult[] {
+// Every behavioral analyzer over one window of collected input. `maxTouchPoints`
+// defaults to the current device; replays pass the recorded one.
+export function analyzeBehavior(records: InputRecord[], maxTouchPoints?: number): SignalResult[] {
   return [
-    detectWebdriver(), detectHeadlessUA(), detectAutomationGlobals(), detectFunctionTampering(),
-    detectPluginsAnomaly(), detectLanguagesAnomaly(), detectWebGLBlacklist(), detectTouchMismatch(),
-    detectTimezoneAvailable(), detectScreenResolution(), detectDeviceSpecs(), detectChromeApp(),
-    detectPermissionsAPI(), detectWebRTC(), detectMediaDevices(), detectPerformanceNowDrift(),
-    detectCanvasFingerprint(), detectFontEnumeration(), detectAudioContext()
+    analyzeFocusBlur(records), analyzeResize(records), analyzeTouchGestures(records),
+    analyzeScrollCadence(records), analyzeHoverDuration(records),
+    ...analyzeTrajectory(toPointerSamples(records)),
+    ...analyzeKeystrokes(toKeySamples(records)),
+    ...analyzeSyntheticInput(records, maxTouchPoints),
   ]
 }
 
-export async function runAllDetections(ms=5000): Promise<{results:SignalResult[], summary:Summary}> {
-  const staticResults = runStaticDetections()
-  const dynamicResults = await startActivityProbe(ms)
-  const behavioralResults = await Promise.all([
-    detectFocusBlurPatterns(ms), detectResizeEvents(ms), detectTouchGestures(ms)
+export async function startActivityProbe(ms = 5000, { signal, collector = getInputCollector() }: ProbeOptions = {}): Promise<SignalResult[]> {
+  return analyzeActivity(await collector.observe(ms, signal), ms)
+}
+
+export async function detectFocusBlurPatterns(ms=3000, { signal, collector = getInputCollector() }: ProbeOptions = {}): Promise<SignalResult> {
+  return analyzeFocusBlur(await collector.observe(ms, signal))
+}
+
+export async function detectResizeEvents(ms=3000, { signal, collector = getInputCollector() }: ProbeOptions = {}): Promise<SignalResult> {
+  return analyzeResize(await collector.observe(ms, signal))
+}
+
+export async function detectTouchGestures(ms=3000, { signal, collector = getInputCollector() }: ProbeOptions = {}): Promise<SignalResult> {
+  return analyzeTouchGestures(await collector.observe(ms, signal))
+}
+
+
+const BUILTIN_DETECTORS: DetectorDefinition[] = [
+  { id: "webdriver", category: "automation", weight: SIGNAL_WEIGHTS.webdriver, run: detectWebdriver },
+  { id: "ua-headless", category: "automation", weight: SIGNAL_WEIGHTS["ua-headless"], run: detectHeadlessUA },
+  { id: "automation-globals", category: "automation", weight: SIGNAL_WEIGHTS["automation-globals"], run: detectAutomationGlobals },
+  { id: "automation-bindings", category: "automation", weight: SIGNAL_WEIGHTS["automation-bindings"], run: detectAutomationBindings },
+  { id: "cdp-runtime", category: "automation", weight: SIGNAL_WEIGHTS["cdp-runtime"], run: detectCDPRuntime },
+  { id: "fn-tamper", category: "automation", weight: SIGNAL_WEIGHTS["fn-tamper"], run: detectFunctionTampering },
+  { id: "nav-lies", category: "automation", weight: SIGNAL_WEIGHTS["nav-lies"], run: detectNavigatorLies },
+  { id: "plugins", category: "environment", weight: SIGNAL_WEIGHTS.plugins, run: detectPluginsAnomaly },
+  { id: "languages", category: "environment", weight: SIGNAL_WEIGHTS.languages, run: detectLanguagesAnomaly },
+  { id: "webgl", category: "fingerprint", weight: SIGNAL_WEIGHTS.webgl, cost: "expensive", params: { minExtensions: 20 }, run: (env, p) => detectWebGLBlacklist(p.minExtensions, env) },
+  { id: "touch", category: "environment", weight: SIGNAL_WEIGHTS.touch, run: detectTouchMismatch },
+  { id: "coherence", category: "fingerprint", weight: SIGNAL_WEIGHTS.coherence, cost: "expensive", run: detectPlatformCoherence },
+  { id: "timezone", category: "environment", weight: SIGNAL_WEIGHTS.timezone, run: detectTimezoneAvailable },
+  { id: "screen", category: "environment", weight: SIGNAL_WEIGHTS.screen, run: detectScreenResolution },
+  { id: "device-specs", category: "environment", weight: SIGNAL_WEIGHTS["device-specs"], run: detectDeviceSpecs },
+  { id: "chrome-app", category: "environment", weight: SIGNAL_WEIGHTS["chrome-app"], run: detectChromeApp },
+  { id: "permissions-api", category: "environment", weight: SIGNAL_WEIGHTS["permissions-api"], run: detectPermissionsAPI },
+  { id: "webrtc", category: "environment", weight: SIGNAL_WEIGHTS.webrtc, run: detectWebRTC },
+  { id: "media-devices", category: "environment", weight: SIGNAL_WEIGHTS["media-devices"], run: detectMediaDevices },
+  { id: "perf-drift", category: "timing", weight: SIGNAL_WEIGHTS["perf-drift"], timeoutMs: 500, run: detectPerformanceNowDrift },
+  { id: "raf-cadence", category: "timing", weight: SIGNAL_WEIGHTS["raf-cadence"], cost: "expensive", timeoutMs: FRAME_TIMEOUT_MS + 500, run: detectFrameCadence },
+  { id: "clock-resolution", category: "timing", weight: SIGNAL_WEIGHTS["clock-resolution"], cost: "expensive", run: detectClockResolution },
+  { id: "timer-throttle", category: "timing", weight: SIGNAL_WEIGHTS["timer-throttle"], timeoutMs: 2000, run: detectTimerThrottling },
+  { id: "cross-context", category: "automation", weight: SIGNAL_WEIGHTS["cross-context"], cost: "expensive", timeoutMs: REALM_TIMEOUT_MS + 500, run: detectCrossContextMismatch },
+  { id: "canvas-fp", category: "fingerprint", weight: SIGNAL_WEIGHTS["canvas-fp"], cost: "expensive", run: detectCanvasFingerprint },
+  { id: "font-probe", category: "fingerprint", weight: SIGNAL_WEIGHTS["font-probe"], cost: "expensive", run: detectFontEnumeration },
+  { id: "audio", category: "fingerprint", weight: SIGNAL_WEIGHTS.audio, cost: "expensive", run: detectAudioContext },
+]
+
+export const detectorRegistry = new DetectorRegistry(BUILTIN_DETECTORS)
+
+export function runStaticDetections(options: RunOptions = {}): Promise<SignalResult[]> {
+  return detectorRegistry.run(options)
+}
+
+// Re-runs the current detector set against an environment recorded with `captureSnapshot`.
+export async function replaySnapshot(snapshot: EnvSnapshot, options: Omit<RunOptions, "env"> = {}): Promise<{results:SignalResult[], summary:Summary}> {
+  const env = snapshotEnv(snapshot)
+  const results = await runStaticDetections({ ...options, env })
+  const { navigator: nav, clientHints } = snapshot.facts
+  const hints = clientHints && "value" in clientHints ? clientHints.value : null
+  const claim = "value" in nav ? claimPlatform(nav.value.userAgent, hints, nav.value.maxTouchPoints) : null
+  return { results, summary: summarize(claim ? applyBaseline(results, claim) : results) }
+}
+
+export async function runAllDetections(ms=5000, { signal, collector = getInputCollector() }: ProbeOptions = {}): Promise<{results:SignalResult[], summary:Summary}> {
+  const [staticResults, records] = await Promise.all([
+    runStaticDetections({ signal }), collector.observe(ms, signal)
   ])
-  const all = [...staticResults, ...dynamicResults, ...behavioralResults]
+  const all = [...staticResults, ...analyzeActivity(records, ms), ...analyzeBehavior(records)]
   const summary = summarize(all)
-  try { (window as any).__BOT_DETECTION_OUTPUT__ = { summary, results: all, ts: Date.now() } } catch {}
+  if (isDebugMode()) (window as Window & { __BOT_DETECTION_OUTPUT__?: unknown }).__BOT_DETECTION_OUTPUT__ = { summary, results: all, ts: Date.now() }
   return { results: all, summary }
 }
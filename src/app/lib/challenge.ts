@@ -0,0 +1,229 @@
+import { createHash, randomBytes } from "crypto"
+import { decodeRecording, parseRecording, type InputRecording } from "./recording"
+import { SESSION_TTL_MS, verifyNonce } from "./session"
+import { signal, type SignalResult } from "./signals"
+import { analyzeSyntheticInput } from "./syntheticInput"
+import { analyzeTrajectory, toPointerSamples } from "./trajectory"
+import { SIGNAL_WEIGHTS } from "./weights"
+
+// Step-up challenges for sessions that score "medium" or worse. Outcomes are kept
+// here per session nonce and fed back into the verdict as the "challenge" signal, so
+// the page cannot report its own pass. A session has one challenge open at a time,
+// and once it fails or skips one it gets no other. Failures are also kept per client
+// (IP and User-Agent), so opening a new session does not start over.
+
+export type ChallengeKind = "pow" | "slider"
+
+export type IssuedChallenge = {
+  id: string
+  kind: ChallengeKind
+  // Leading zero bits the proof-of-work hash needs; pow only.
+  difficulty?: number
+  expiresAt: number
+}
+
+export type PowSolution = { counter: string }
+
+export type SliderSolution = {
+  recording: InputRecording
+  // Client-space left edge and width of the slider track.
+  track: { x: number, width: number }
+}
+
+export type ChallengeSolution = PowSolution | SliderSolution
+
+export type ChallengeOutcome = {
+  passed: boolean
+  reason?: string
+  // The analyzers that judged a slider trace.
+  results?: SignalResult[]
+}
+
+// Why no challenge was issued: the nonce is not ours, another challenge is still
+// open, or the session already failed one.
+export type ChallengeRefusal = "bad-nonce" | "pending" | "failed"
+
+type OpenChallenge = {
+  id: string
+  kind: ChallengeKind
+  difficulty: number
+  issuedAt: number
+}
+
+type Answer = { id: string, kind: ChallengeKind, passed: boolean, reason?: string }
+
+type SessionChallenges = {
+  // P(bot) of the session's latest server verdict.
+  probability?: number
+  // clientKey() of the request that opened the first challenge.
+  client?: string
+  open?: OpenChallenge
+  // The last answered challenge. A failure is never replaced.
+  answered?: Answer
+}
+
+export const CHALLENGE_TTL_MS = 2 * 60 * 1000
+export const POW_MIN_BITS = 10
+export const POW_MAX_BITS = 16
+
+const MAX_COUNTER_LENGTH = 32
+const MAX_TRACKED_SESSIONS = 10_000
+// Clients behind one NAT with the same browser share a key, so a failure does not
+// follow them forever.
+const CLIENT_FAILURE_TTL_MS = 30 * 60 * 1000
+const SLIDER_MIN_MOVES = 8
+const SLIDER_MIN_MS = 150
+const SLIDER_REACHED = 0.95
+// A slider drag is straight and uncorrected by design, so the path-shape analyzers
+// that look for exactly that are left out.
+const SLIDER_IGNORED = new Set(["traj-straightness", "traj-no-correction", "traj-fitts"])
+
+// Per process and least recently used first, like the envelope sequence numbers in
+// session.ts.
+const sessions = new Map<string, SessionChallenges>()
+const clientFailures = new Map<string, Answer & { at: number }>()
+
+function touch<T>(map: Map<string, T>, key: string, value: T): T {
+  map.delete(key)
+  map.set(key, value)
+  if (map.size > MAX_TRACKED_SESSIONS) map.delete(map.keys().next().value!)
+  return value
+}
+
+const sessionState = (session: string) => touch(sessions, session, sessions.get(session) ?? {})
+
+// What the server can tell a client by without trusting the page: the first
+// forwarded address and the User-Agent.
+export function clientKey(headers: Headers): string {
+  const ip = headers.get("x-forwarded-for")?.split(",")[0].trim() ?? headers.get("x-real-ip") ?? ""
+  return createHash("sha256").update(`${ip}\n${headers.get("user-agent") ?? ""}`).digest("base64url").slice(0, 22)
+}
+
+function clientFailure(client: string, now: number): Answer | undefined {
+  const failure = clientFailures.get(client)
+  return failure && now - failure.at <= CLIENT_FAILURE_TTL_MS ? failure : undefined
+}
+
+function answer(state: SessionChallenges, answered: Answer, now: number): void {
+  state.open = undefined
+  state.answered = answered
+  if (!answered.passed && state.client) touch(clientFailures, state.client, { ...answered, at: now })
+}
+
+// An open challenge left unanswered past its lifetime counts as skipped.
+function settleExpired(state: SessionChallenges, now: number): void {
+  const open = state.open
+  if (!open || now - open.issuedAt <= CHALLENGE_TTL_MS) return
+  answer(state, { id: open.id, kind: open.kind, passed: false, reason: "skipped" }, now)
+}
+
+export function leadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0
+  for (const b of bytes) {
+    if (b === 0) {
+      bits += 8
+      continue
+    }
+    return bits + Math.clz32(b) - 24
+  }
+  return bits
+}
+
+// More likely bots pay more: each extra bit doubles the expected work.
+export function powDifficulty(probability: number): number {
+  const p = Math.max(0, Math.min(1, probability))
+  return POW_MIN_BITS + Math.round(p * (POW_MAX_BITS - POW_MIN_BITS))
+}
+
+// Called by the verdict route with every verdict it signs for the session.
+export function recordVerdict(session: string, probability: number): void {
+  sessionState(session).probability = probability
+}
+
+const issued = (c: OpenChallenge): IssuedChallenge =>
+  ({ id: c.id, kind: c.kind, ...(c.kind === "pow" ? { difficulty: c.difficulty } : {}), expiresAt: c.issuedAt + CHALLENGE_TTL_MS })
+
+// Difficulty follows the session's latest verdict; a session without one pays the
+// most. Asking again for the kind that is open returns the same challenge.
+export function issueChallenge(session: string, client: string, kind: ChallengeKind, now = Date.now()): IssuedChallenge | { error: ChallengeRefusal } {
+  const issuedAt = verifyNonce(session)
+  if (issuedAt === null || now - issuedAt > SESSION_TTL_MS) return { error: "bad-nonce" }
+  const state = sessionState(session)
+  state.client ??= client
+  settleExpired(state, now)
+  if ((state.answered && !state.answered.passed) || clientFailure(client, now)) return { error: "failed" }
+  if (state.open) return state.open.kind === kind ? issued(state.open) : { error: "pending" }
+  const difficulty = kind === "pow" ? powDifficulty(state.probability ?? 1) : 0
+  state.open = { id: randomBytes(16).toString("base64url"), kind, difficulty, issuedAt: now }
+  return issued(state.open)
+}
+
+function verifyPow(id: string, difficulty: number, solution: Partial<PowSolution>): ChallengeOutcome {
+  const counter = solution.counter
+  if (typeof counter !== "string" || !counter || counter.length > MAX_COUNTER_LENGTH) return { passed: false, reason: "malformed" }
+  const hash = createHash("sha256").update(`${id}:${counter}`).digest()
+  const bits = leadingZeroBits(hash)
+  return bits >= difficulty ? { passed: true } : { passed: false, reason: `${bits}/${difficulty} bits` }
+}
+
+function verifySlider(solution: Partial<SliderSolution>): ChallengeOutcome {
+  const { track } = solution
+  let recording: InputRecording
+  try {
+    recording = parseRecording(solution.recording)
+  } catch {
+    return { passed: false, reason: "malformed" }
+  }
+  if (!track || !(track.width > 0) || !Number.isFinite(track.x)) return { passed: false, reason: "malformed" }
+
+  const records = decodeRecording(recording)
+  const moves = records.filter(r => r.type === "pointermove" && r.x !== undefined)
+  const reached = moves.length ? Math.max(...moves.map(r => (r.x! - track.x) / track.width)) : 0
+  const duration = moves.length ? moves[moves.length - 1].t - moves[0].t : 0
+  const results = [
+    ...analyzeTrajectory(toPointerSamples(records)).filter(s => !SLIDER_IGNORED.has(s.id)),
+    ...analyzeSyntheticInput(records, recording.maxTouchPoints),
+  ]
+  const flagged = results.filter(s => s.suspicious).map(s => s.id)
+
+  if (moves.length < SLIDER_MIN_MOVES || duration < SLIDER_MIN_MS) return { passed: false, reason: "too few movements", results }
+  if (reached < SLIDER_REACHED) return { passed: false, reason: "slider not completed", results }
+  if (flagged.length) return { passed: false, reason: flagged.join(", "), results }
+  return { passed: true, results }
+}
+
+// Each challenge gets one attempt, and only from the session it was issued to. A
+// missing solution is how the page reports that the visitor skipped the challenge.
+export function verifyChallenge(session: unknown, id: unknown, solution: unknown, now = Date.now()): ChallengeOutcome {
+  const state = typeof session === "string" ? sessions.get(session) : undefined
+  if (!state || typeof id !== "string") return { passed: false, reason: "unknown challenge" }
+  if (state.answered?.id === id) return { passed: false, reason: "already answered" }
+  const open = state.open
+  if (open?.id !== id) return { passed: false, reason: "unknown challenge" }
+
+  const outcome: ChallengeOutcome = now - open.issuedAt > CHALLENGE_TTL_MS
+    ? { passed: false, reason: "expired" }
+    : solution == null
+      ? { passed: false, reason: "skipped" }
+      : open.kind === "pow"
+        ? verifyPow(id, open.difficulty, solution as Partial<PowSolution>)
+        : verifySlider(solution as Partial<SliderSolution>)
+  answer(state, { id, kind: open.kind, passed: outcome.passed, reason: outcome.reason }, now)
+  return outcome
+}
+
+// The session's last answered challenge as a signal: clean when passed, suspicious
+// once one failed or was skipped, and absent before any was answered. A challenge
+// still open does not hide an earlier result, and a new session does not hide a
+// failure of the same client.
+export function challengeSignal(session: string, client: string, now = Date.now()): SignalResult | null {
+  const state = sessions.get(session)
+  if (state) settleExpired(state, now)
+  const earlier = state?.answered ? undefined : clientFailure(client, now)
+  const answered = state?.answered ?? earlier
+  if (!answered) return null
+  const outcome = answered.passed ? "passed" : answered.reason === "skipped" || answered.reason === "expired" ? "skipped" : "failed"
+  const details = answered.reason ? `${answered.kind}: ${answered.reason}` : answered.kind
+  return signal("challenge", `Step-up ${answered.kind} challenge ${outcome}`, !answered.passed, SIGNAL_WEIGHTS.challenge,
+    earlier ? `${details} (earlier session)` : details)
+}
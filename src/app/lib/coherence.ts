@@ -0,0 +1,246 @@
+// Claimed-platform profiles: what the User-Agent and Client Hints say the device is,
+// and what a real device of that kind looks like. Detectors judge single properties;
+// this module judges whether they fit together.
+
+import { baseSignalId, type SignalResult } from "./signals"
+
+export type OS = "windows" | "macos" | "linux" | "chromeos" | "ios" | "android" | "unknown"
+export type DeviceClass = "desktop" | "tablet" | "phone"
+export type Browser = "chrome" | "edge" | "firefox" | "safari" | "other"
+
+export type ClientHints = {
+  platform: string
+  mobile: boolean
+  brands: string[]
+  platformVersion?: string
+  model?: string
+  architecture?: string
+}
+
+export type ClaimedPlatform = {
+  os: OS
+  deviceClass: DeviceClass
+  browser: Browser
+  // The OS the User-Agent string names, kept when Client Hints override it.
+  uaOS: OS
+  // Android Chrome's "Request desktop site" sends a Linux desktop UA but keeps the
+  // Android Client Hints; phone or tablet cannot be told apart then.
+  desktopSite: boolean
+  source: "user-agent" | "client-hints"
+}
+
+export type PlatformBaseline = {
+  // Expected navigator.platform values.
+  navigatorPlatform?: RegExp
+  gpu?: { expect?: RegExp, reject?: RegExp }
+  touchPoints: [min: number, max: number]
+  // At least one of these fonts is installed on every stock system.
+  fonts?: string[]
+  // Multipliers for detectors that misfire on this platform for reasons that have
+  // nothing to do with automation.
+  weights?: Record<string, number>
+}
+
+export type CoherenceFacts = {
+  navigatorPlatform: string | null
+  webglRenderer?: string
+  screen: { width: number, height: number }
+  maxTouchPoints: number
+  fonts?: string[]
+}
+
+export type CoherenceIssue = {
+  field: "client-hints" | "platform" | "gpu" | "screen" | "touch" | "fonts"
+  details: string
+}
+
+const MOBILE_GPU = /Adreno|Mali|PowerVR|Xclipse|Immortalis|Tegra/i
+// Snapdragon Windows-on-ARM laptops have Adreno GPUs, which ANGLE drives through Direct3D.
+const NON_WINDOWS_MOBILE_GPU = /Mali|PowerVR|Xclipse|Immortalis|Tegra|Adreno(?!.*(Direct3D|D3D1\d))/i
+const APPLE_GPU = /Apple (GPU|M\d)/i
+const DIRECT3D = /Direct3D|D3D1\d/i
+
+export const PLATFORM_BASELINES: Record<OS, PlatformBaseline> = {
+  windows: {
+    navigatorPlatform: /^Win/,
+    gpu: { reject: new RegExp(`${APPLE_GPU.source}|${NON_WINDOWS_MOBILE_GPU.source}`, "i") },
+    touchPoints: [0, 10],
+    fonts: ["Segoe UI", "Calibri", "Consolas", "Tahoma"],
+  },
+  macos: {
+    navigatorPlatform: /^Mac/,
+    gpu: { reject: new RegExp(`${DIRECT3D.source}|${MOBILE_GPU.source}`, "i") },
+    touchPoints: [0, 0],
+    fonts: ["Helvetica Neue", "Menlo", "Lucida Grande"],
+  },
+  linux: {
+    navigatorPlatform: /^Linux|X11|FreeBSD/,
+    gpu: { reject: new RegExp(`${APPLE_GPU.source}|${DIRECT3D.source}`, "i") },
+    touchPoints: [0, 10],
+  },
+  chromeos: {
+    navigatorPlatform: /^Linux|CrOS/,
+    gpu: { reject: new RegExp(`${APPLE_GPU.source}|${DIRECT3D.source}`, "i") },
+    touchPoints: [0, 10],
+  },
+  ios: {
+    // iPadOS in desktop mode reports MacIntel.
+    navigatorPlatform: /^(iPhone|iPad|iPod|MacIntel)/,
+    gpu: { expect: /Apple/i },
+    touchPoints: [1, 5],
+    fonts: ["Helvetica Neue"],
+    weights: {
+      "plugins": 0.3, "device-specs": 0.3, "chrome-app": 0, "permissions-api": 0.5, "media-devices": 0.5, "webrtc": 0.7, "audio": 0.5,
+      // Low Power Mode halves the frame rate and stretches timers.
+      "raf-cadence": 0.5, "timer-throttle": 0.5,
+    },
+  },
+  android: {
+    navigatorPlatform: /^Linux|Android/,
+    gpu: { expect: MOBILE_GPU },
+    touchPoints: [1, 10],
+    fonts: ["Roboto"],
+    weights: { "plugins": 0.3, "chrome-app": 0.5, "device-specs": 0.7, "media-devices": 0.7, "raf-cadence": 0.5, "timer-throttle": 0.5 },
+  },
+  unknown: {
+    touchPoints: [0, 10],
+  },
+}
+
+// Safari and Firefox never expose navigator.deviceMemory or chrome.app.
+const BROWSER_WEIGHTS: Partial<Record<Browser, Record<string, number>>> = {
+  safari: { "device-specs": 0.3 },
+  firefox: { "device-specs": 0.3 },
+}
+
+// Shorter and longer screen side in CSS pixels.
+const SCREEN_RANGES: Record<DeviceClass, { short: [number, number], long: [number, number] }> = {
+  phone: { short: [300, 600], long: [480, 1000] },
+  tablet: { short: [600, 1400], long: [800, 1800] },
+  // Laptops scaled to 150% report 1280x533 or 1366x576.
+  desktop: { short: [480, 4320], long: [1000, 7680] },
+}
+
+function osFromUA(ua: string, maxTouchPoints: number): OS {
+  if (/iPhone|iPad|iPod/i.test(ua)) return "ios"
+  if (/Android/i.test(ua)) return "android"
+  if (/CrOS/.test(ua)) return "chromeos"
+  if (/Windows/i.test(ua)) return "windows"
+  // iPadOS Safari asks for desktop sites with a Macintosh UA; only the touch screen gives it away.
+  if (/Macintosh|Mac OS X/i.test(ua)) return maxTouchPoints > 1 ? "ios" : "macos"
+  if (/Linux|X11/i.test(ua)) return "linux"
+  return "unknown"
+}
+
+function osFromHints(platform: string): OS {
+  const p = platform.toLowerCase()
+  if (p === "windows") return "windows"
+  if (p === "macos") return "macos"
+  if (p === "linux") return "linux"
+  if (p === "chrome os" || p === "chromeos") return "chromeos"
+  if (p === "android") return "android"
+  if (p === "ios") return "ios"
+  return "unknown"
+}
+
+function browserFromUA(ua: string): Browser {
+  if (/Edg(e|A|iOS)?\//.test(ua)) return "edge"
+  if (/Firefox|FxiOS/.test(ua)) return "firefox"
+  if (/Chrome|CriOS|Chromium/.test(ua)) return "chrome"
+  if (/Safari/.test(ua)) return "safari"
+  return "other"
+}
+
+export function claimPlatform(userAgent: string, hints: ClientHints | null = null, maxTouchPoints = 0): ClaimedPlatform {
+  const uaOS = osFromUA(userAgent, maxTouchPoints)
+  const hintedOS = hints ? osFromHints(hints.platform) : "unknown"
+  const os = hintedOS !== "unknown" ? hintedOS : uaOS
+  const mobile = hints?.mobile ?? /Mobile|iPhone|iPod/i.test(userAgent)
+  const deviceClass: DeviceClass = os === "ios" || os === "android" ? (mobile ? "phone" : "tablet") : "desktop"
+  const desktopSite = hintedOS === "android" && uaOS === "linux"
+  return { os, deviceClass, browser: browserFromUA(userAgent), uaOS, desktopSite, source: hintedOS !== "unknown" ? "client-hints" : "user-agent" }
+}
+
+export function baselineFor(claim: ClaimedPlatform): PlatformBaseline {
+  return PLATFORM_BASELINES[claim.os]
+}
+
+export function touchPlausible(claim: ClaimedPlatform, maxTouchPoints: number): boolean {
+  const [min, max] = baselineFor(claim).touchPoints
+  return maxTouchPoints >= min && maxTouchPoints <= max
+}
+
+export function evaluateCoherence(claim: ClaimedPlatform, facts: CoherenceFacts): CoherenceIssue[] {
+  const baseline = baselineFor(claim)
+  const issues: CoherenceIssue[] = []
+
+  if (claim.source === "client-hints" && claim.uaOS !== "unknown" && claim.uaOS !== claim.os && !claim.desktopSite) {
+    issues.push({ field: "client-hints", details: `UA says ${claim.uaOS}, Client Hints say ${claim.os}` })
+  }
+  if (baseline.navigatorPlatform && facts.navigatorPlatform !== null && !baseline.navigatorPlatform.test(facts.navigatorPlatform)) {
+    issues.push({ field: "platform", details: `navigator.platform=${facts.navigatorPlatform} on ${claim.os}` })
+  }
+  const renderer = facts.webglRenderer
+  if (renderer && baseline.gpu) {
+    const { expect, reject } = baseline.gpu
+    if (reject?.test(renderer) || (expect && !expect.test(renderer))) {
+      issues.push({ field: "gpu", details: `${renderer} on ${claim.os}` })
+    }
+  }
+  const { width, height } = facts.screen
+  const short = Math.min(width, height)
+  const long = Math.max(width, height)
+  const classes: DeviceClass[] = claim.desktopSite ? ["phone", "tablet"] : [claim.deviceClass]
+  const fits = classes.some(c => {
+    const range = SCREEN_RANGES[c]
+    return short >= range.short[0] && short <= range.short[1] && long >= range.long[0] && long <= range.long[1]
+  })
+  if (!fits) {
+    issues.push({ field: "screen", details: `${width}x${height} for a ${classes.join(" or ")}` })
+  }
+  if (!touchPlausible(claim, facts.maxTouchPoints)) {
+    issues.push({ field: "touch", details: `maxTouchPoints=${facts.maxTouchPoints} on ${claim.os}` })
+  }
+  if (baseline.fonts && facts.fonts && !baseline.fonts.some(f => facts.fonts!.includes(f))) {
+    issues.push({ field: "fonts", details: `none of ${baseline.fonts.join(", ")} on ${claim.os}` })
+  }
+  return issues
+}
+
+export function baselineWeight(claim: ClaimedPlatform, id: string): number {
+  const base = baseSignalId(id)
+  return (baselineFor(claim).weights?.[base] ?? 1) * (BROWSER_WEIGHTS[claim.browser]?.[base] ?? 1)
+}
+
+// Rescales signals by the claimed platform's baseline instead of discounting every
+// signal on mobile by the same factor.
+export function applyBaseline(results: SignalResult[], claim: ClaimedPlatform): SignalResult[] {
+  return results.map(s => {
+    const factor = baselineWeight(claim, s.id)
+    return factor === 1 ? s : { ...s, weight: +(s.weight * factor).toFixed(2) }
+  })
+}
+
+// The low-entropy Client Hints: what navigator.userAgentData reports synchronously
+// and what Chromium sends as Sec-CH-UA-* headers with every request.
+export function currentHints(): ClientHints | null {
+  const data = typeof navigator !== "undefined"
+    ? (navigator as Navigator & { userAgentData?: { platform: string, mobile: boolean, brands: { brand: string }[] } }).userAgentData
+    : undefined
+  return data ? { platform: data.platform, mobile: data.mobile, brands: data.brands.map(b => b.brand) } : null
+}
+
+export function hintsFromHeaders(headers: Headers): ClientHints | null {
+  const platform = headers.get("sec-ch-ua-platform")?.replace(/"/g, "")
+  if (!platform) return null
+  const brands = [...(headers.get("sec-ch-ua") ?? "").matchAll(/"([^"]+)"\s*;\s*v=/g)].map(m => m[1])
+  return { platform, mobile: headers.get("sec-ch-ua-mobile") === "?1", brands }
+}
+
+// `applyBaseline` for the running browser, usable as a RiskMonitor `adjust` hook.
+// The verdict route claims the platform from the same evidence: User-Agent,
+// low-entropy Client Hints and maxTouchPoints.
+export function applyCurrentBaseline(results: SignalResult[]): SignalResult[] {
+  if (typeof navigator === "undefined") return results
+  return applyBaseline(results, claimPlatform(navigator.userAgent, currentHints(), navigator.maxTouchPoints ?? 0))
+}
@@ -0,0 +1,117 @@
+// Reads the same facts from a Web Worker and a sandboxed iframe. Stealth plugins
+// patch `navigator` on the main thread but rarely in every other realm.
+
+export type ContextFacts = {
+  userAgent: string
+  languages: string[]
+  hardwareConcurrency: number | null
+  platform: string | null
+  timeZone: string | null
+  webglVendor: string | null
+  webglRenderer: string | null
+}
+
+export type RealmFacts = {
+  // null when the realm could not be created or did not answer in time.
+  worker: ContextFacts | null
+  iframe: ContextFacts | null
+}
+
+export const REALM_TIMEOUT_MS = 1500
+
+// Serialized into the worker and iframe, so it must not reference anything outside itself.
+function collectContextFacts(): ContextFacts {
+  const nav = navigator
+  let vendor = null
+  let renderer = null
+  try {
+    const canvas = typeof OffscreenCanvas !== "undefined" ? new OffscreenCanvas(1, 1) : document.createElement("canvas")
+    const gl = canvas.getContext("webgl") as WebGLRenderingContext | null
+    const ext = gl && gl.getExtension("WEBGL_debug_renderer_info")
+    if (gl && ext) {
+      vendor = gl.getParameter(ext.UNMASKED_VENDOR_WEBGL)
+      renderer = gl.getParameter(ext.UNMASKED_RENDERER_WEBGL)
+    }
+  } catch {
+    // no WebGL in this realm
+  }
+  return {
+    userAgent: nav.userAgent,
+    languages: Array.from(nav.languages || []),
+    hardwareConcurrency: typeof nav.hardwareConcurrency === "number" ? nav.hardwareConcurrency : null,
+    platform: typeof nav.platform === "string" ? nav.platform : null,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || null,
+    webglVendor: vendor,
+    webglRenderer: renderer,
+  }
+}
+
+function settle<T>(start: (done: (value: T | null) => void) => () => void, timeoutMs: number): Promise<T | null> {
+  return new Promise(resolve => {
+    let cleanup = () => {}
+    const timer = setTimeout(() => done(null), timeoutMs)
+    function done(value: T | null) {
+      clearTimeout(timer)
+      cleanup()
+      resolve(value)
+    }
+    try {
+      cleanup = start(done)
+    } catch {
+      done(null)
+    }
+  })
+}
+
+export function workerFacts(timeoutMs = REALM_TIMEOUT_MS): Promise<ContextFacts | null> {
+  if (typeof Worker === "undefined") return Promise.resolve(null)
+  return settle<ContextFacts>(done => {
+    const url = URL.createObjectURL(new Blob([`postMessage((${collectContextFacts})())`], { type: "text/javascript" }))
+    const worker = new Worker(url)
+    worker.onmessage = (e: MessageEvent<ContextFacts>) => done(e.data)
+    worker.onerror = () => done(null)
+    return () => {
+      worker.terminate()
+      URL.revokeObjectURL(url)
+    }
+  }, timeoutMs)
+}
+
+// The iframe is sandboxed without allow-same-origin: the page cannot reach into it,
+// and neither can a main-world script patching every same-origin frame.
+export function iframeFacts(timeoutMs = REALM_TIMEOUT_MS): Promise<ContextFacts | null> {
+  if (typeof document === "undefined" || !document.body) return Promise.resolve(null)
+  return settle<ContextFacts>(done => {
+    const nonce = Math.random().toString(36).slice(2)
+    const frame = document.createElement("iframe")
+    frame.setAttribute("sandbox", "allow-scripts")
+    frame.setAttribute("aria-hidden", "true")
+    frame.style.display = "none"
+    frame.srcdoc = `<script>parent.postMessage({ nonce: "${nonce}", facts: (${collectContextFacts})() }, "*")</script>`
+    const onMessage = (e: MessageEvent<{ nonce?: string, facts?: ContextFacts }>) => {
+      if (e.source === frame.contentWindow && e.data?.nonce === nonce) done(e.data.facts ?? null)
+    }
+    window.addEventListener("message", onMessage)
+    document.body.appendChild(frame)
+    return () => {
+      window.removeEventListener("message", onMessage)
+      frame.remove()
+    }
+  }, timeoutMs)
+}
+
+export async function collectRealms(timeoutMs = REALM_TIMEOUT_MS): Promise<RealmFacts> {
+  const [worker, iframe] = await Promise.all([workerFacts(timeoutMs), iframeFacts(timeoutMs)])
+  return { worker, iframe }
+}
+
+// Fields that differ between the main thread and another realm. A field missing on
+// either side (no WebGL in workers on some browsers) is not compared.
+export function compareContexts(main: ContextFacts, other: ContextFacts): (keyof ContextFacts)[] {
+  return (Object.keys(main) as (keyof ContextFacts)[]).filter(key => {
+    const a = main[key]
+    const b = other[key]
+    if (a === null || b === null || a === undefined || b === undefined) return false
+    return JSON.stringify(a) !== JSON.stringify(b)
+  })
+}
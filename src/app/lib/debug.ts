@@ -0,0 +1,15 @@
+// Readable diagnostics (the JSON panel, the window global) are only exposed in an
+// explicit debug build: NEXT_PUBLIC_BOT_DEBUG=1 at build time.
+export function isDebugMode(): boolean {
+  const flag = process.env.NEXT_PUBLIC_BOT_DEBUG
+  return flag === "1" || flag === "true"
+}
+
+// Overrides (forced detectors, device profiles, frozen probes) change what the page
+// reports, so a production build only accepts them when built with
+// NEXT_PUBLIC_BOT_OVERRIDES=1. Development builds always do.
+export function overridesAllowed(): boolean {
+  if (process.env.NODE_ENV !== "production") return true
+  const flag = process.env.NEXT_PUBLIC_BOT_OVERRIDES
+  return flag === "1" || flag === "true"
+}
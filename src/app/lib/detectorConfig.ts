@@ -0,0 +1,16 @@
+import { readFile } from "fs/promises"
+import { parseDetectorConfig, type DetectorConfig } from "./detectorRegistry"
+
+// Read on every request so weights can be retuned by editing the config file,
+// without a rebuild or redeploy.
+export async function loadDetectorConfig(): Promise<DetectorConfig> {
+  try {
+    if (process.env.DETECTOR_CONFIG_PATH) {
+      return parseDetectorConfig(JSON.parse(await readFile(process.env.DETECTOR_CONFIG_PATH, "utf8")))
+    }
+    if (process.env.DETECTOR_CONFIG) return parseDetectorConfig(JSON.parse(process.env.DETECTOR_CONFIG))
+  } catch (err) {
+    console.error("Ignoring invalid detector config", err)
+  }
+  return {}
+}
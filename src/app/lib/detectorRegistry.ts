@@ -0,0 +1,215 @@
+import { abortError, isAbortError } from "./abort"
+import { liveEnv, type DetectionEnv } from "./env"
+import { parseScoringModel, type ScoringModel } from "./scoring"
+import type { SignalResult } from "./signals"
+
+export type DetectorCategory = "automation" | "environment" | "fingerprint" | "timing" | "behavioral"
+export type Platform = "desktop" | "ios" | "android"
+export type DetectorParams = Record<string, number>
+export type DetectorCost = "cheap" | "expensive"
+
+export type DetectorDefinition = {
+  id: string
+  category: DetectorCategory
+  weight: number
+  platforms?: Platform[]
+  enabled?: boolean
+  params?: DetectorParams
+  cost?: DetectorCost
+  timeoutMs?: number
+  run: (env: DetectionEnv, params: DetectorParams) => SignalResult | Promise<SignalResult>
+}
+
+export type ResolvedDetector = DetectorDefinition & {
+  enabled: boolean
+  params: DetectorParams
+  force?: boolean
+}
+
+export type DetectorOverride = {
+  weight?: number
+  enabled?: boolean
+  params?: DetectorParams
+  // Debug overrides only: report the detector as suspicious (true) or clean (false)
+  // whatever it measured. Never read from a served config.
+  force?: boolean
+}
+
+export type DetectorConfig = {
+  detectors?: Record<string, DetectorOverride>
+  scoring?: ScoringModel
+}
+
+export type RunOptions = {
+  platform?: Platform
+  // Defaults to the live browser; pass a snapshot env to replay a recorded visitor.
+  env?: DetectionEnv
+  signal?: AbortSignal
+  onResult?: (result: SignalResult) => void
+}
+
+const DEFAULT_TIMEOUT_MS = 1000
+
+export class DetectorTimeoutError extends Error {
+  constructor(id: string, ms: number) {
+    super(`Detector "${id}" timed out after ${ms}ms`)
+    this.name = "DetectorTimeoutError"
+  }
+}
+
+
+function whenIdle(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError())
+    const onAbort = () => reject(abortError())
+    const done = () => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+    if (typeof requestIdleCallback === "function") requestIdleCallback(done, { timeout: 500 })
+    else setTimeout(done, 0)
+  })
+}
+
+// A synchronous detector cannot be interrupted; the timeout bounds async ones.
+function withTimeout<T>(work: Promise<T>, id: string, ms: number, signal?: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => finish(() => reject(abortError()))
+    const timer = setTimeout(() => finish(() => reject(new DetectorTimeoutError(id, ms))), ms)
+    const finish = (settle: () => void) => {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+      settle()
+    }
+    if (signal?.aborted) return onAbort()
+    signal?.addEventListener("abort", onAbort, { once: true })
+    work.then(v => finish(() => resolve(v)), err => finish(() => reject(err)))
+  })
+}
+
+export function currentPlatform(ua = typeof navigator !== "undefined" ? navigator.userAgent : ""): Platform {
+  if (/iP(hone|ad|od)/i.test(ua)) return "ios"
+  if (/Android/i.test(ua)) return "android"
+  return "desktop"
+}
+
+const isNumberRecord = (v: unknown): v is Record<string, number> =>
+  !!v && typeof v === "object" && Object.values(v).every(n => typeof n === "number" && Number.isFinite(n))
+
+export function parseDetectorConfig(input: unknown): DetectorConfig {
+  const scoring = parseScoringModel((input as DetectorConfig | undefined)?.scoring)
+  const detectors = (input as DetectorConfig | undefined)?.detectors
+  if (!detectors || typeof detectors !== "object") return scoring ? { scoring } : {}
+  const parsed: Record<string, DetectorOverride> = {}
+  for (const [id, raw] of Object.entries(detectors)) {
+    if (!raw || typeof raw !== "object") continue
+    const o: DetectorOverride = {}
+    if (typeof raw.weight === "number" && Number.isFinite(raw.weight) && raw.weight >= 0) o.weight = raw.weight
+    if (typeof raw.enabled === "boolean") o.enabled = raw.enabled
+    if (isNumberRecord(raw.params)) o.params = raw.params
+    parsed[id] = o
+  }
+  return scoring ? { detectors: parsed, scoring } : { detectors: parsed }
+}
+
+// The detector still runs so the overlay and the details show what it really measured.
+function forced(d: ResolvedDetector, result: SignalResult): SignalResult {
+  if (d.force === undefined) return result
+  return {
+    ...result,
+    suspicious: d.force,
+    weight: result.weight || d.weight,
+    ...(result.severity !== undefined ? { severity: d.force ? 1 : 0 } : {}),
+    details: `forced ${d.force ? "on" : "off"}${result.details ? ` (measured: ${result.details})` : ""}`,
+  }
+}
+
+export class DetectorRegistry {
+  private definitions = new Map<string, DetectorDefinition>()
+  private overrides: Record<string, DetectorOverride> = {}
+
+  constructor(definitions: DetectorDefinition[] = []) {
+    definitions.forEach(d => this.register(d))
+  }
+
+  register(definition: DetectorDefinition): this {
+    if (this.definitions.has(definition.id)) throw new Error(`Detector "${definition.id}" is already registered`)
+    this.definitions.set(definition.id, definition)
+    return this
+  }
+
+  unregister(id: string): boolean {
+    return this.definitions.delete(id)
+  }
+
+  configure(config: DetectorConfig): this {
+    for (const [id, o] of Object.entries(config.detectors ?? {})) {
+      const prev = this.overrides[id] ?? {}
+      this.overrides[id] = { ...prev, ...o, params: { ...prev.params, ...o.params } }
+    }
+    return this
+  }
+
+  reset(): this {
+    this.overrides = {}
+    return this
+  }
+
+  setWeight(id: string, weight: number): this {
+    return this.configure({ detectors: { [id]: { weight } } })
+  }
+
+  setEnabled(id: string, enabled: boolean): this {
+    return this.configure({ detectors: { [id]: { enabled } } })
+  }
+
+  resolve(id: string): ResolvedDetector | undefined {
+    const d = this.definitions.get(id)
+    if (!d) return undefined
+    const o = this.overrides[id] ?? {}
+    return {
+      ...d,
+      weight: o.weight ?? d.weight,
+      enabled: o.enabled ?? d.enabled ?? true,
+      params: { ...d.params, ...o.params },
+      force: o.force,
+    }
+  }
+
+  list(): ResolvedDetector[] {
+    return [...this.definitions.keys()].map(id => this.resolve(id)!)
+  }
+
+  applicable(platform: Platform = currentPlatform()): ResolvedDetector[] {
+    return this.list().filter(d => d.enabled && (!d.platforms || d.platforms.includes(platform)))
+  }
+
+  async run(options: RunOptions = {}): Promise<SignalResult[]> {
+    const env = options.env ?? liveEnv
+    const detectors = this.applicable(options.platform ?? (options.env ? currentPlatform(env.navigator().userAgent) : undefined))
+    return Promise.all(detectors.map(async d => {
+      const result = forced(d, await this.runOne(d, env, options.signal))
+      options.onResult?.(result)
+      return result
+    }))
+  }
+
+  private async runOne(d: ResolvedDetector, env: DetectionEnv, signal?: AbortSignal): Promise<SignalResult> {
+    let result: SignalResult
+    try {
+      if (d.cost === "expensive") await whenIdle(signal)
+      const work = Promise.resolve().then(() => d.run(env, d.params))
+      result = await withTimeout(work, d.id, d.timeoutMs ?? DEFAULT_TIMEOUT_MS, signal)
+    } catch (err) {
+      if (isAbortError(err)) throw err
+      const timedOut = err instanceof DetectorTimeoutError
+      return { id: d.id, name: `${d.id} detector ${timedOut ? "timed out" : "failed"}`, suspicious: false, weight: 0, details: String(err) }
+    }
+    // Detectors may grade their own weight (e.g. per platform); the configured
+    // weight rescales that instead of replacing it.
+    const base = this.definitions.get(d.id)!.weight
+    const weight = base > 0 ? result.weight * (d.weight / base) : d.weight
+    return { ...result, weight: +weight.toFixed(2) }
+  }
+}
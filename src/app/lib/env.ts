@@ -0,0 +1,390 @@
+// Everything the static detectors read from the browser, behind one interface so
+// they can run against a live page or a snapshot recorded from a visitor.
+
+import type { ClientHints } from "./coherence"
+import { collectRealms, REALM_TIMEOUT_MS, type RealmFacts } from "./crossContext"
+import { inspectInstrumentation, type InstrumentationFacts } from "./instrumentation"
+import { inspectIntegrity, type IntegrityFacts } from "./integrity"
+import { measureClock, measureTimers, sampleFrames, type ClockFacts, type FrameFacts, type TimerFacts } from "./timing"
+
+export type NavigatorFacts = {
+  userAgent: string
+  webdriver: boolean | null
+  languages: string[]
+  pluginsLength: number
+  maxTouchPoints: number
+  platform: string | null
+  hardwareConcurrency: number | null
+  deviceMemory: number | null
+  permissions: boolean
+  mediaDevices: boolean
+}
+
+export type WindowFacts = {
+  globals: string[]
+  chromeAppInstalled: boolean | null
+  rtcPeerConnection: boolean
+}
+
+export type ScreenFacts = {
+  width: number
+  height: number
+  colorDepth?: number
+  pixelRatio?: number
+}
+
+export type WebGLInfo = {
+  vendor?: string
+  renderer?: string
+  extCount?: number
+}
+
+export type CanvasFacts = {
+  dataUrl: string
+  // Whether a second identical drawing produced the same pixels; anti-fingerprinting
+  // extensions and anti-detect browsers add per-read noise.
+  stable: boolean
+}
+
+export type AudioFacts = {
+  available: boolean
+  analyser: boolean
+}
+
+export type TimerDrift = {
+  delta: number
+  wall: number
+}
+
+export interface DetectionEnv {
+  navigator(): NavigatorFacts
+  // navigator.userAgentData with its high-entropy values; null outside Chromium.
+  clientHints(): Promise<ClientHints | null>
+  window(): WindowFacts
+  screen(): ScreenFacts
+  timeZone(): string | null
+  webgl(): WebGLInfo
+  // The fixed test drawing, or null without a 2D context.
+  canvas(): CanvasFacts | null
+  fontWidth(): number | null
+  // Which of FONT_CANDIDATES render differently from the generic fallbacks.
+  fonts(): string[]
+  audio(): AudioFacts
+  // Sum of an OfflineAudioContext render; varies with the audio stack.
+  audioFingerprint(): Promise<number | null>
+  timerDrift(delayMs: number): Promise<TimerDrift>
+  // requestAnimationFrame intervals, performance.now() step size and setTimeout lateness.
+  frames(): Promise<FrameFacts>
+  clock(): Promise<ClockFacts>
+  timers(): Promise<TimerFacts>
+  // Traces of patched navigator properties and native functions.
+  integrity(): IntegrityFacts
+  // The same navigator, time zone and WebGL facts read from a worker and a sandboxed iframe.
+  realms(timeoutMs?: number): Promise<RealmFacts>
+  // Automation bindings and driver keys on window/document, and the Runtime.enable probe.
+  instrumentation(): InstrumentationFacts
+}
+
+// Window properties left behind by common automation tools.
+export const PROBED_GLOBALS = [
+  "callPhantom", "__nightmare", "__driver_evaluate",
+  "__selenium_unwrapped", "__phantomas", "__PLAYWRIGHT_GLOBAL__",
+  "Puppeteer", "__puppeteer_evaluate",
+]
+
+export const FONT_CANDIDATES = [
+  "Arial", "Arial Black", "Calibri", "Cambria", "Comic Sans MS", "Consolas", "Courier New",
+  "DejaVu Sans", "Georgia", "Helvetica", "Helvetica Neue", "Liberation Sans", "Lucida Grande",
+  "Menlo", "Noto Sans", "Roboto", "Segoe UI", "SF Pro Text", "Tahoma", "Times New Roman",
+  "Trebuchet MS", "Ubuntu", "Verdana",
+]
+
+const FONT_BASES = ["monospace", "sans-serif", "serif"]
+
+type LiveNavigator = Navigator & {
+  deviceMemory?: number
+  userAgentData?: {
+    platform: string
+    mobile: boolean
+    brands: { brand: string, version: string }[]
+    getHighEntropyValues(hints: string[]): Promise<{ platformVersion?: string, model?: string, architecture?: string }>
+  }
+}
+
+type LiveWindow = Window & {
+  chrome?: { app?: { isInstalled?: boolean } }
+  AudioContext?: typeof AudioContext
+  webkitAudioContext?: typeof AudioContext
+  OfflineAudioContext?: typeof OfflineAudioContext
+  webkitOfflineAudioContext?: typeof OfflineAudioContext
+}
+
+function drawCanvas(): string | null {
+  const canvas = document.createElement("canvas")
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return null
+  ctx.textBaseline = "top"
+  ctx.font = "14px 'Arial'"
+  ctx.fillText("bot-check", 2, 2)
+  return canvas.toDataURL()
+}
+
+export const liveEnv: DetectionEnv = {
+  navigator() {
+    const nav = navigator as LiveNavigator
+    return {
+      userAgent: nav.userAgent,
+      webdriver: typeof nav.webdriver === "boolean" ? nav.webdriver : null,
+      languages: [...(nav.languages || [])],
+      pluginsLength: nav.plugins?.length ?? 0,
+      maxTouchPoints: nav.maxTouchPoints ?? 0,
+      platform: nav.platform ?? null,
+      hardwareConcurrency: nav.hardwareConcurrency ?? null,
+      deviceMemory: nav.deviceMemory ?? null,
+      permissions: "permissions" in nav,
+      mediaDevices: !!nav.mediaDevices?.enumerateDevices,
+    }
+  },
+
+  async clientHints() {
+    const data = (navigator as LiveNavigator).userAgentData
+    if (!data) return null
+    const high = await data.getHighEntropyValues(["platformVersion", "model", "architecture"]).catch(() => ({}))
+    return { platform: data.platform, mobile: data.mobile, brands: data.brands.map(b => b.brand), ...high }
+  },
+
+  window() {
+    const w = window as LiveWindow
+    return {
+      globals: PROBED_GLOBALS.filter(k => k in w),
+      chromeAppInstalled: w.chrome?.app?.isInstalled ?? null,
+      rtcPeerConnection: "RTCPeerConnection" in w,
+    }
+  },
+
+  screen() {
+    return {
+      width: window.screen.width,
+      height: window.screen.height,
+      colorDepth: window.screen.colorDepth,
+      pixelRatio: window.devicePixelRatio,
+    }
+  },
+
+  timeZone() {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone ?? null
+  },
+
+  webgl() {
+    try {
+      const canvas = document.createElement("canvas")
+      const gl = (canvas.getContext("webgl") || canvas.getContext("experimental-webgl")) as WebGLRenderingContext | null
+      if (!gl) return {}
+      const ext = gl.getExtension("WEBGL_debug_renderer_info")
+      const vendor = ext ? gl.getParameter(ext.UNMASKED_VENDOR_WEBGL) : ""
+      const renderer = ext ? gl.getParameter(ext.UNMASKED_RENDERER_WEBGL) : ""
+      return { vendor, renderer, extCount: gl.getSupportedExtensions()?.length ?? 0 }
+    } catch { return {} }
+  },
+
+  canvas() {
+    const dataUrl = drawCanvas()
+    if (dataUrl === null) return null
+    return { dataUrl, stable: drawCanvas() === dataUrl }
+  },
+
+  fontWidth() {
+    const el = document.createElement("span")
+    el.style.fontFamily = "Arial, 'Times New Roman', monospace"
+    el.innerText = "font-check"
+    document.body.appendChild(el)
+    const w = el.offsetWidth
+    document.body.removeChild(el)
+    return w
+  },
+
+  fonts() {
+    const el = document.createElement("span")
+    el.style.cssText = "position:absolute;left:-9999px;font-size:72px;visibility:hidden"
+    el.textContent = "mmmmmmmmmmlli1WQ"
+    document.body.appendChild(el)
+    const measure = (family: string) => {
+      el.style.fontFamily = family
+      return `${el.offsetWidth}x${el.offsetHeight}`
+    }
+    try {
+      const base = FONT_BASES.map(measure)
+      return FONT_CANDIDATES.filter(font => FONT_BASES.some((b, i) => measure(`'${font}', ${b}`) !== base[i]))
+    } finally {
+      document.body.removeChild(el)
+    }
+  },
+
+  audio() {
+    const w = window as LiveWindow
+    const AC = w.AudioContext || w.webkitAudioContext
+    if (!AC) return { available: false, analyser: false }
+    const ctx = new AC()
+    const analyser = typeof ctx.createAnalyser === "function"
+    ctx.close?.()
+    return { available: true, analyser }
+  },
+
+  async audioFingerprint() {
+    const w = window as LiveWindow
+    const OAC = w.OfflineAudioContext || w.webkitOfflineAudioContext
+    if (!OAC) return null
+    const ctx = new OAC(1, 5000, 44100)
+    const osc = ctx.createOscillator()
+    osc.type = "triangle"
+    osc.frequency.value = 10000
+    const comp = ctx.createDynamicsCompressor()
+    comp.threshold.value = -50
+    comp.knee.value = 40
+    comp.ratio.value = 12
+    comp.attack.value = 0
+    comp.release.value = 0.25
+    osc.connect(comp)
+    comp.connect(ctx.destination)
+    osc.start(0)
+    const data = (await ctx.startRendering()).getChannelData(0)
+    let sum = 0
+    for (let i = 4500; i < data.length; i++) sum += Math.abs(data[i])
+    return sum
+  },
+
+  async timerDrift(delayMs) {
+    const start = performance.now()
+    const t0 = Date.now()
+    await new Promise(r => setTimeout(r, delayMs))
+    return { delta: performance.now() - start, wall: Date.now() - t0 }
+  },
+
+  frames() {
+    return sampleFrames()
+  },
+
+  clock() {
+    return measureClock()
+  },
+
+  timers() {
+    return measureTimers()
+  },
+
+  integrity() {
+    return inspectIntegrity()
+  },
+
+  realms(timeoutMs = REALM_TIMEOUT_MS) {
+    return collectRealms(timeoutMs)
+  },
+
+  instrumentation() {
+    return inspectInstrumentation()
+  },
+}
+
+// A fact that threw is recorded as its error so the replay fails the same way.
+export type Fact<T> = { value: T } | { error: string }
+
+export type EnvSnapshot = {
+  version: 1
+  capturedAt: number
+  url?: string
+  facts: {
+    navigator: Fact<NavigatorFacts>
+    clientHints?: Fact<ClientHints | null>
+    window: Fact<WindowFacts>
+    screen: Fact<ScreenFacts>
+    timeZone: Fact<string | null>
+    webgl: Fact<WebGLInfo>
+    canvas: Fact<CanvasFacts | null>
+    fontWidth: Fact<number | null>
+    fonts?: Fact<string[]>
+    audio: Fact<AudioFacts>
+    audioFingerprint?: Fact<number | null>
+    timerDrift: Fact<TimerDrift>
+    frames?: Fact<FrameFacts>
+    clock?: Fact<ClockFacts>
+    timers?: Fact<TimerFacts>
+    integrity?: Fact<IntegrityFacts>
+    realms?: Fact<RealmFacts>
+    instrumentation?: Fact<InstrumentationFacts>
+  }
+}
+
+const SNAPSHOT_DRIFT_MS = 50
+
+async function record<T>(read: () => T | Promise<T>): Promise<Fact<T>> {
+  try {
+    return { value: await read() }
+  } catch (err) {
+    return { error: String(err) }
+  }
+}
+
+export async function captureSnapshot(env: DetectionEnv = liveEnv): Promise<EnvSnapshot> {
+  return {
+    version: 1,
+    capturedAt: Date.now(),
+    url: typeof location !== "undefined" ? location.href : undefined,
+    facts: {
+      navigator: await record(() => env.navigator()),
+      clientHints: await record(() => env.clientHints()),
+      window: await record(() => env.window()),
+      screen: await record(() => env.screen()),
+      timeZone: await record(() => env.timeZone()),
+      webgl: await record(() => env.webgl()),
+      canvas: await record(() => env.canvas()),
+      fontWidth: await record(() => env.fontWidth()),
+      fonts: await record(() => env.fonts()),
+      audio: await record(() => env.audio()),
+      audioFingerprint: await record(() => env.audioFingerprint()),
+      timerDrift: await record(() => env.timerDrift(SNAPSHOT_DRIFT_MS)),
+      frames: await record(() => env.frames()),
+      clock: await record(() => env.clock()),
+      timers: await record(() => env.timers()),
+      integrity: await record(() => env.integrity()),
+      realms: await record(() => env.realms()),
+      instrumentation: await record(() => env.instrumentation()),
+    },
+  }
+}
+
+function replay<T>(fact: Fact<T> | undefined, name: string): T {
+  if (!fact) throw new Error(`Snapshot has no ${name} fact`)
+  if ("error" in fact) throw new Error(fact.error)
+  return fact.value
+}
+
+export function snapshotEnv(snapshot: EnvSnapshot): DetectionEnv {
+  const f = snapshot.facts
+  return {
+    navigator: () => replay(f.navigator, "navigator"),
+    // Snapshots from before Client Hints were recorded replay as a browser without them.
+    clientHints: async () => f.clientHints ? replay(f.clientHints, "clientHints") : null,
+    window: () => replay(f.window, "window"),
+    screen: () => replay(f.screen, "screen"),
+    timeZone: () => replay(f.timeZone, "timeZone"),
+    webgl: () => replay(f.webgl, "webgl"),
+    canvas: () => replay(f.canvas, "canvas"),
+    fontWidth: () => replay(f.fontWidth, "fontWidth"),
+    fonts: () => replay(f.fonts, "fonts"),
+    audio: () => replay(f.audio, "audio"),
+    audioFingerprint: async () => replay(f.audioFingerprint, "audioFingerprint"),
+    timerDrift: async () => replay(f.timerDrift, "timerDrift"),
+    frames: async () => replay(f.frames, "frames"),
+    clock: async () => replay(f.clock, "clock"),
+    timers: async () => replay(f.timers, "timers"),
+    integrity: () => replay(f.integrity, "integrity"),
+    realms: async () => replay(f.realms, "realms"),
+    instrumentation: () => replay(f.instrumentation, "instrumentation"),
+  }
+}
+
+export function parseSnapshot(input: unknown): EnvSnapshot {
+  const s = input as EnvSnapshot | undefined
+  if (s?.version !== 1 || !s.facts || typeof s.facts !== "object") throw new Error("Not a version 1 environment snapshot")
+  return s
+}
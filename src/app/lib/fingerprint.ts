@@ -0,0 +1,193 @@
+import { liveEnv, type DetectionEnv } from "./env"
+import type { RiskLevel } from "./scoring"
+import { signal, type SignalResult } from "./signals"
+import { SIGNAL_WEIGHTS } from "./weights"
+
+export type FingerprintComponent = "canvas" | "webgl" | "audio" | "fonts" | "screen" | "locale"
+
+export type Fingerprint = {
+  id: string
+  // Hash per component; null when the component could not be measured this time.
+  components: Record<FingerprintComponent, string | null>
+}
+
+export type Visit = {
+  at: number
+  visitorId: string
+  fingerprint: string
+  userAgent: string
+  level?: RiskLevel
+  probability?: number
+}
+
+const DB_NAME = "bot-detector"
+const DB_VERSION = 1
+const VISITS = "visits"
+const META = "meta"
+const HISTORY_LIMIT = 50
+const SESSION_KEY = "bot-detector:fingerprint:v2"
+const ROTATION_WINDOW_MS = 24 * 60 * 60 * 1000
+const ROTATION_MIN_UAS = 3
+const AUDIO_TIMEOUT_MS = 1000
+
+export async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text))
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, "0")).join("")
+}
+
+// A component that cannot be read hashes its error, which is itself stable per browser.
+// One that reads as nothing (e.g. the audio render timed out) is unknown.
+async function read(fn: () => unknown): Promise<string | null> {
+  try {
+    const value = await fn()
+    return value == null ? null : JSON.stringify(value)
+  } catch (err) {
+    return `error:${String(err)}`
+  }
+}
+
+// OfflineAudioContext rendering never settles in some throttled background tabs.
+function audioWithTimeout(env: DetectionEnv): Promise<number | null> {
+  return Promise.race([
+    env.audioFingerprint(),
+    new Promise<null>(resolve => setTimeout(() => resolve(null), AUDIO_TIMEOUT_MS)),
+  ])
+}
+
+// The User-Agent is deliberately left out so that a device rotating UAs keeps its id.
+export async function computeFingerprint(env: DetectionEnv = liveEnv): Promise<Fingerprint> {
+  const raw: Record<FingerprintComponent, string | null> = {
+    canvas: await read(() => env.canvas()?.dataUrl),
+    webgl: await read(() => env.webgl()),
+    audio: await read(() => audioWithTimeout(env)),
+    fonts: await read(() => env.fonts()),
+    // devicePixelRatio changes with browser zoom and between monitors, so it is left out.
+    screen: await read(() => {
+      const { width, height, colorDepth } = env.screen()
+      return { width, height, colorDepth }
+    }),
+    locale: await read(() => ({ languages: env.navigator().languages, timeZone: env.timeZone() })),
+  }
+  const entries = await Promise.all(Object.entries(raw).map(async ([k, v]) => [k, v === null ? null : await sha256(v)] as const))
+  const components = Object.fromEntries(entries) as Record<FingerprintComponent, string | null>
+  return { id: await sha256(entries.map(([k, h]) => `${k}:${h}`).join("|")), components }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+// Visits are kept in IndexedDB, newest last and capped at `limit`. Without IndexedDB
+// (private modes, Node) the history only lives as long as the page.
+export class VisitHistory {
+  private db?: Promise<IDBDatabase | null>
+  private memory: Visit[] = []
+  private memoryId?: string
+
+  constructor(readonly limit = HISTORY_LIMIT, private dbName = DB_NAME) {}
+
+  async visitorId(): Promise<string> {
+    const db = await this.open()
+    if (!db) return this.memoryId ??= crypto.randomUUID()
+    const stored = await request(db.transaction(META).objectStore(META).get("visitorId")) as string | undefined
+    if (stored) return stored
+    const id = crypto.randomUUID()
+    await request(db.transaction(META, "readwrite").objectStore(META).put(id, "visitorId"))
+    return id
+  }
+
+  async list(): Promise<Visit[]> {
+    const db = await this.open()
+    if (!db) return [...this.memory]
+    return await request(db.transaction(VISITS).objectStore(VISITS).getAll()) as Visit[]
+  }
+
+  async add(visit: Visit): Promise<void> {
+    const db = await this.open()
+    if (!db) {
+      this.memory = [...this.memory, visit].slice(-this.limit)
+      return
+    }
+    const store = db.transaction(VISITS, "readwrite").objectStore(VISITS)
+    await request(store.add(visit))
+    const keys = await request(store.getAllKeys())
+    for (const key of keys.slice(0, Math.max(0, keys.length - this.limit))) store.delete(key)
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open()
+    this.memory = []
+    if (db) await request(db.transaction(VISITS, "readwrite").objectStore(VISITS).clear())
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    this.db ??= new Promise(resolve => {
+      if (typeof indexedDB === "undefined") return resolve(null)
+      const req = indexedDB.open(this.dbName, DB_VERSION)
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(VISITS, { autoIncrement: true })
+        req.result.createObjectStore(META)
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => resolve(null)
+    })
+    return this.db
+  }
+}
+
+let shared: VisitHistory | undefined
+
+export function getVisitHistory(): VisitHistory {
+  shared ??= new VisitHistory()
+  return shared
+}
+
+// Components the session's first fingerprint could not measure are taken from the
+// first later one that could.
+function sessionFingerprint(current: Fingerprint): Fingerprint {
+  try {
+    const stored = sessionStorage.getItem(SESSION_KEY)
+    const first = stored ? JSON.parse(stored) as Fingerprint : current
+    const components = { ...first.components }
+    for (const k of Object.keys(components) as FingerprintComponent[]) components[k] ??= current.components[k]
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify({ ...first, components }))
+    return { ...first, components }
+  } catch {
+    // storage disabled: only this page load counts as the session
+  }
+  return current
+}
+
+export function fingerprintSignals(current: Fingerprint, visits: Visit[], userAgent: string, now = Date.now()): SignalResult[] {
+  const first = typeof sessionStorage !== "undefined" ? sessionFingerprint(current) : current
+  // An unknown component on either side is not a change.
+  const changed = (Object.keys(current.components) as FingerprintComponent[])
+    .filter(k => first.components[k] != null && current.components[k] != null && first.components[k] !== current.components[k])
+
+  const recent = visits.filter(v => v.fingerprint === current.id && now - v.at <= ROTATION_WINDOW_MS)
+  const uas = new Set([...recent.map(v => v.userAgent), userAgent])
+
+  return [
+    signal("fp-changed", "Fingerprint changed within session", changed.length > 0, SIGNAL_WEIGHTS["fp-changed"],
+      changed.length ? `changed=${changed.join(",")}` : `id=${current.id.slice(0, 12)}`),
+    signal("fp-ua-rotation", "Same fingerprint seen with many User-Agents", uas.size >= ROTATION_MIN_UAS, SIGNAL_WEIGHTS["fp-ua-rotation"],
+      `userAgents=${uas.size}, visits=${recent.length} in 24h`),
+  ]
+}
+
+// Fingerprints this browser, scores it against its stored history and returns a
+// `record` callback that saves the visit once a verdict is known.
+export async function trackVisit(
+  env: DetectionEnv = liveEnv,
+  history: VisitHistory = getVisitHistory()
+): Promise<{ fingerprint: Fingerprint, visitorId: string, signals: SignalResult[], record: (level?: RiskLevel, probability?: number) => Promise<void> }> {
+  const userAgent = env.navigator().userAgent
+  const [fingerprint, visitorId, visits] = await Promise.all([computeFingerprint(env), history.visitorId(), history.list()])
+  const signals = fingerprintSignals(fingerprint, visits, userAgent)
+  const record = (level?: RiskLevel, probability?: number) =>
+    history.add({ at: Date.now(), visitorId, fingerprint: fingerprint.id, userAgent, level, probability })
+  return { fingerprint, visitorId, signals, record }
+}
@@ -0,0 +1,85 @@
+import { detectorRegistry, runStaticDetections, startActivityProbe, type Summary } from "./botDetector"
+import { applyCurrentBaseline } from "./coherence"
+import { getRiskMonitor, type RiskMonitor } from "./riskMonitor"
+import { fetchDetectorConfig, requestHeaderSignals } from "./verdictClient"
+
+export type GuardAction = "allow" | "probe" | "challenge" | "block"
+
+export type GuardPolicy = {
+  // What to do at each level; "low" is always allowed.
+  medium: GuardAction
+  high: GuardAction
+  // What to do when a probe did not bring the level down to "low".
+  afterProbe?: Exclude<GuardAction, "probe">
+  probeMs?: number
+}
+
+export const DEFAULT_PROBE_MS = 4000
+
+// Per-route policies for the forms that use <BotGate>.
+export const GUARD_POLICIES = {
+  default: { medium: "probe", high: "challenge", afterProbe: "challenge" },
+  signup: { medium: "probe", high: "block", afterProbe: "challenge" },
+  checkout: { medium: "challenge", high: "block" },
+} satisfies Record<string, GuardPolicy>
+
+export type PolicyName = keyof typeof GUARD_POLICIES
+
+export function resolvePolicy(policy: GuardPolicy | PolicyName = "default"): GuardPolicy {
+  return typeof policy === "string" ? GUARD_POLICIES[policy] : policy
+}
+
+export function decide(level: Summary["level"] | undefined, policy: GuardPolicy): GuardAction {
+  if (level === "low") return "allow"
+  // Nothing scored yet: gather evidence before letting anything through.
+  if (!level) return "probe"
+  return policy[level]
+}
+
+export function guardMonitor(): RiskMonitor {
+  return getRiskMonitor({ adjust: applyCurrentBaseline })
+}
+
+let holders = 0
+let holding: AbortController | null = null
+
+// Keeps the shared monitor scoring while at least one hook or gate holds it, so one
+// of them unmounting does not stop it for the others. Released when `signal` aborts.
+export function acquireGuardMonitor(signal: AbortSignal, monitor: RiskMonitor = guardMonitor()): void {
+  if (signal.aborted) return
+  if (holders++ === 0) {
+    holding = new AbortController()
+    monitor.start(holding.signal)
+  }
+  signal.addEventListener("abort", () => {
+    if (--holders > 0) return
+    holding?.abort()
+    holding = null
+  }, { once: true })
+}
+
+let detections: Promise<void> | null = null
+
+// Runs the static detections and header signals into the shared monitor once per page
+// load. The demo page does the same itself; forms only need this.
+export function ensureDetections(monitor: RiskMonitor = guardMonitor()): Promise<void> {
+  detections ??= (async () => {
+    const config = await fetchDetectorConfig()
+    detectorRegistry.reset().configure(config)
+    const [, headers] = await Promise.all([
+      runStaticDetections({ onResult: r => monitor.observe([r], { decay: false }) }),
+      requestHeaderSignals(),
+    ])
+    monitor.observe(headers, { decay: false })
+  })().catch(() => {
+    detections = null
+  })
+  return detections
+}
+
+export async function probeInto(monitor: RiskMonitor, ms = DEFAULT_PROBE_MS, signal?: AbortSignal): Promise<Summary | null> {
+  const ts = Date.now()
+  const probes = await startActivityProbe(ms, { signal })
+  monitor.observe(probes.map((s, i) => ({ ...s, id: `${s.id}-probe-${i}-${ts}` })))
+  return monitor.getSummary()
+}
@@ -0,0 +1,105 @@
+import { AUTOMATION_UA_PATTERNS } from "./botDetector"
+import { signal, type SignalResult } from "./signals"
+import { SIGNAL_WEIGHTS } from "./weights"
+
+export type ClientFacts = {
+  userAgent?: string
+  languages?: string[]
+  maxTouchPoints?: number
+}
+
+type ClaimedBrowser = {
+  chromium: boolean
+  chromeVersion: number
+  mobile: boolean
+  os: "Windows" | "macOS" | "Linux" | "Android" | "iOS" | "Chrome OS" | "unknown"
+}
+
+function claimedBrowser(ua: string): ClaimedBrowser {
+  const ios = /iP(hone|ad|od)/i.test(ua)
+  const version = Number(/(?:Chrome|Chromium|HeadlessChrome)\/(\d+)/.exec(ua)?.[1] ?? 0)
+  const os = ios ? "iOS"
+    : /Android/i.test(ua) ? "Android"
+    : /CrOS/i.test(ua) ? "Chrome OS"
+    : /Windows/i.test(ua) ? "Windows"
+    : /Mac OS X|Macintosh/i.test(ua) ? "macOS"
+    : /Linux/i.test(ua) ? "Linux"
+    : "unknown"
+  // Android tablets leave "Mobile" out of the UA and send sec-ch-ua-mobile: ?0.
+  return { chromium: version > 0 && !ios && !/Firefox\//i.test(ua), chromeVersion: version, mobile: /Mobile/.test(ua), os }
+}
+
+const primaryLang = (tag?: string) => (tag ?? "").split(/[-_;,]/)[0].trim().toLowerCase()
+
+export function detectAcceptLanguage(headers: Headers, client: ClientFacts): SignalResult {
+  const header = headers.get("accept-language")
+  const navLang = client.languages?.[0]
+  const mismatch = !!header && !!navLang && primaryLang(header) !== primaryLang(navLang)
+  return signal("hdr-accept-language", "Accept-Language disagrees with navigator.languages", !header || mismatch, SIGNAL_WEIGHTS["hdr-accept-language"],
+    `header=${header ?? "missing"}, navigator=${client.languages?.join(",") ?? "n/a"}`)
+}
+
+export function detectClientHints(headers: Headers): SignalResult {
+  const ua = headers.get("user-agent") ?? ""
+  const claimed = claimedBrowser(ua)
+  const brands = headers.get("sec-ch-ua")
+  const mobileHint = headers.get("sec-ch-ua-mobile")
+  const platformHint = headers.get("sec-ch-ua-platform")?.replace(/"/g, "")
+  const problems: string[] = []
+  if (brands && /HeadlessChrome/i.test(brands)) problems.push("headless brand")
+  // Client hints shipped in Chrome 89; other engines never send them.
+  if (claimed.chromium && claimed.chromeVersion >= 90 && !brands) problems.push("missing sec-ch-ua")
+  if (!claimed.chromium && brands) problems.push("non-Chromium UA sends sec-ch-ua")
+  if (mobileHint && (mobileHint === "?1") !== claimed.mobile) problems.push(`mobile=${mobileHint}`)
+  // Android Chrome's "Request desktop site" keeps the Android hints behind a Linux UA.
+  const desktopSite = platformHint === "Android" && claimed.os === "Linux"
+  if (platformHint && claimed.os !== "unknown" && platformHint !== claimed.os && !desktopSite) problems.push(`platform=${platformHint} vs UA ${claimed.os}`)
+  return signal("hdr-client-hints", "Client hints contradict User-Agent", problems.length > 0, SIGNAL_WEIGHTS["hdr-client-hints"],
+    problems.length ? problems.join("; ") : `sec-ch-ua=${brands ?? "n/a"}`)
+}
+
+export function detectSecFetch(headers: Headers): SignalResult {
+  const missing = ["sec-fetch-site", "sec-fetch-mode", "sec-fetch-dest"].filter(h => !headers.has(h))
+  return signal("hdr-sec-fetch", "Sec-Fetch-* headers missing", missing.length > 0, SIGNAL_WEIGHTS["hdr-sec-fetch"],
+    missing.length ? `missing=${missing.join(",")}` : undefined)
+}
+
+export function detectUserAgentHeader(headers: Headers, client: ClientFacts): SignalResult {
+  const header = headers.get("user-agent") ?? ""
+  const hit = AUTOMATION_UA_PATTERNS.some(p => header.toLowerCase().includes(p))
+  const spoofed = client.userAgent !== undefined && client.userAgent !== header
+  return signal("hdr-user-agent", "User-Agent header contradicts navigator.userAgent", hit || spoofed, SIGNAL_WEIGHTS["hdr-user-agent"],
+    spoofed ? `header=${header}, navigator=${client.userAgent}` : hit ? `header=${header}` : undefined)
+}
+
+// Fetch's Headers iterates in sorted order, so raw header order is not observable
+// here. We look at which headers are present instead.
+export function detectHeaderSetQuirks(headers: Headers): SignalResult {
+  const quirks: string[] = []
+  if (!headers.has("accept")) quirks.push("no accept")
+  if (!headers.has("accept-encoding")) quirks.push("no accept-encoding")
+  if (headers.has("x-devtools-emulate-network-conditions-client-id")) quirks.push("devtools emulation header")
+  if (headers.get("connection")?.toLowerCase() === "close") quirks.push("connection: close")
+  return signal("hdr-header-set", "Request header set looks scripted", quirks.length > 0, SIGNAL_WEIGHTS["hdr-header-set"],
+    quirks.length ? quirks.join("; ") : undefined)
+}
+
+export function collectHeaderSignals(headers: Headers, client: ClientFacts = {}): SignalResult[] {
+  return [
+    detectAcceptLanguage(headers, client),
+    detectClientHints(headers),
+    detectSecFetch(headers),
+    detectUserAgentHeader(headers, client),
+    detectHeaderSetQuirks(headers),
+  ]
+}
+
+export function parseClientFacts(body: unknown): ClientFacts {
+  const client = (body as { client?: { userAgent?: unknown, languages?: unknown, maxTouchPoints?: unknown } })?.client
+  const touch = client?.maxTouchPoints
+  return {
+    userAgent: typeof client?.userAgent === "string" ? client.userAgent : undefined,
+    languages: Array.isArray(client?.languages) ? client.languages.filter((l): l is string => typeof l === "string").slice(0, 20) : undefined,
+    maxTouchPoints: typeof touch === "number" && Number.isInteger(touch) && touch >= 0 && touch <= 256 ? touch : undefined,
+  }
+}
@@ -0,0 +1,171 @@
+import { sleep } from "./abort"
+
+export type InputRecord = {
+  type: string
+  t: number
+  trusted: boolean
+  x?: number
+  y?: number
+  pointerType?: string
+  pressure?: number
+  buttons?: number
+  width?: number
+  height?: number
+  coalesced?: number
+  movementX?: number
+  movementY?: number
+  targetSize?: number
+  code?: string
+  repeat?: boolean
+}
+
+export type WatchOptions = {
+  intervalMs?: number
+  windowMs?: number
+  signal?: AbortSignal
+}
+
+export const COLLECTED_EVENT_TYPES = [
+  "pointermove", "pointerdown", "pointerup", "click", "mouseover", "mouseout",
+  "keydown", "keyup", "touchstart", "touchend", "scroll", "wheel",
+  "resize", "blur", "focus", "gesturestart", "visibilitychange",
+]
+
+const DEFAULT_CAPACITY = 4096
+
+export function toInputRecord(e: Event): InputRecord {
+  const record: InputRecord = { type: e.type, t: e.timeStamp, trusted: e.isTrusted }
+  if (typeof MouseEvent !== "undefined" && e instanceof MouseEvent) {
+    record.x = e.clientX
+    record.y = e.clientY
+    record.buttons = e.buttons
+    record.movementX = e.movementX
+    record.movementY = e.movementY
+  }
+  if (typeof PointerEvent !== "undefined" && e instanceof PointerEvent) {
+    record.pointerType = e.pointerType
+    record.pressure = e.pressure
+    record.width = e.width
+    record.height = e.height
+    if (e.type === "pointermove" && typeof e.getCoalescedEvents === "function") record.coalesced = e.getCoalescedEvents().length
+    if (e.type === "pointerdown" && e.target instanceof Element) {
+      const rect = e.target.getBoundingClientRect()
+      record.targetSize = Math.min(rect.width, rect.height)
+    }
+  }
+  if (typeof KeyboardEvent !== "undefined" && e instanceof KeyboardEvent) {
+    record.code = e.code
+    record.repeat = e.repeat
+  }
+  return record
+}
+
+export class InputCollector {
+  private buffer: InputRecord[] = []
+  private head = 0
+  private listeners = new Set<(record: InputRecord) => void>()
+  private controller?: AbortController
+  private refs = 0
+
+  constructor(readonly capacity = DEFAULT_CAPACITY) {}
+
+  get running(): boolean {
+    return !!this.controller
+  }
+
+  // Listeners are attached while at least one consumer holds the collector.
+  acquire(signal?: AbortSignal): () => void {
+    let released = false
+    const release = () => {
+      if (released) return
+      released = true
+      signal?.removeEventListener("abort", release)
+      if (--this.refs === 0) this.stop()
+    }
+    if (signal?.aborted) return () => {}
+    if (this.refs++ === 0) this.start()
+    signal?.addEventListener("abort", release, { once: true })
+    return release
+  }
+
+  push(record: InputRecord): void {
+    if (this.buffer.length < this.capacity) this.buffer.push(record)
+    else {
+      this.buffer[this.head] = record
+      this.head = (this.head + 1) % this.capacity
+    }
+    this.listeners.forEach(l => l(record))
+  }
+
+  records(from = -Infinity, to = Infinity): InputRecord[] {
+    const ordered = this.buffer.length < this.capacity
+      ? this.buffer
+      : [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)]
+    return ordered.filter(r => r.t >= from && r.t <= to)
+  }
+
+  clear(): void {
+    this.buffer = []
+    this.head = 0
+  }
+
+  subscribe(listener: (record: InputRecord) => void, signal?: AbortSignal): () => void {
+    const release = this.acquire(signal)
+    this.listeners.add(listener)
+    const unsubscribe = () => {
+      this.listeners.delete(listener)
+      release()
+    }
+    signal?.addEventListener("abort", unsubscribe, { once: true })
+    return unsubscribe
+  }
+
+  // Hands the last `windowMs` of the buffer (or all of it) to `onWindow` every `intervalMs`.
+  watch(onWindow: (records: InputRecord[]) => void, { intervalMs = 1000, windowMs, signal }: WatchOptions = {}): () => void {
+    const release = this.acquire(signal)
+    const timer = setInterval(() => {
+      onWindow(this.records(windowMs === undefined ? -Infinity : performance.now() - windowMs))
+    }, intervalMs)
+    const stop = () => {
+      clearInterval(timer)
+      release()
+    }
+    signal?.addEventListener("abort", stop, { once: true })
+    return stop
+  }
+
+  // Records everything that arrives during the next `ms` milliseconds.
+  async observe(ms: number, signal?: AbortSignal): Promise<InputRecord[]> {
+    const release = this.acquire(signal)
+    const from = performance.now()
+    try {
+      await sleep(ms, signal)
+    } finally {
+      release()
+    }
+    return this.records(from)
+  }
+
+  private start(): void {
+    if (typeof window === "undefined") return
+    this.controller = new AbortController()
+    const onEvent = (e: Event) => this.push(toInputRecord(e))
+    const options = { capture: true, passive: true, signal: this.controller.signal }
+    COLLECTED_EVENT_TYPES.forEach(type => {
+      const target = type === "visibilitychange" ? document : window
+      target.addEventListener(type, onEvent, options)
+    })
+  }
+
+  private stop(): void {
+    this.controller?.abort()
+    this.controller = undefined
+  }
+}
+
+let shared: InputCollector | undefined
+
+export function getInputCollector(): InputCollector {
+  shared ??= new InputCollector()
+  return shared
+}
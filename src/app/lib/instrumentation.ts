@@ -0,0 +1,135 @@
+// DevTools-protocol instrumentation: the bindings, driver keys and console side
+// effects that Playwright, Puppeteer and chromedriver leave in the page, attributed
+// to the tool that most likely left them.
+
+import { signal, type SignalResult } from "./signals"
+import { SIGNAL_WEIGHTS } from "./weights"
+
+export type AutomationTool =
+  | "playwright" | "puppeteer" | "selenium" | "chromedriver"
+  | "phantomjs" | "nightmare" | "cdp"
+
+export type InstrumentationHit = {
+  tool: AutomationTool
+  // Where the key was found; "runtime" is the Runtime.enable console probe.
+  source: "window" | "document" | "runtime"
+  key: string
+}
+
+export type InstrumentationFacts = {
+  hits: InstrumentationHit[]
+  // Whether a console message was serialized by an attached protocol client.
+  runtimeEnabled: boolean | null
+}
+
+export const TOOL_PATTERNS: [AutomationTool, RegExp][] = [
+  ["playwright", /^(__playwright|__pw[A-Z_]|_playwright)/],
+  ["puppeteer", /^(__puppeteer|puppeteer_)/],
+  ["chromedriver", /^(\$?cdc_|\$wdc_|domAutomation)/],
+  ["selenium", /^(__selenium|_selenium|__webdriver|__driver_|__fxdriver|_Selenium_IDE|_WEBDRIVER_ELEM_CACHE|calledSelenium)/],
+  ["phantomjs", /^(callPhantom|_phantom|__phantomas)/],
+  ["nightmare", /^__nightmare/],
+]
+
+const WATCH_INTERVAL_MS = 2000
+
+export function attribute(key: string): AutomationTool | null {
+  return TOOL_PATTERNS.find(([, pattern]) => pattern.test(key))?.[0] ?? null
+}
+
+function scan(target: object, source: InstrumentationHit["source"]): InstrumentationHit[] {
+  const hits: InstrumentationHit[] = []
+  for (const key of Object.getOwnPropertyNames(target)) {
+    const tool = attribute(key)
+    if (tool) hits.push({ tool, source, key })
+  }
+  return hits
+}
+
+export function scanGlobals(win: object = window, doc: object = document): InstrumentationHit[] {
+  return [...scan(win, "window"), ...scan(doc, "document")]
+}
+
+// With Runtime.enable, every console call is serialized for the client, which reads
+// an Error's `stack`. A plain page never touches the getter. An open DevTools
+// window does the same, so this is evidence of a debugger, not proof of a bot, and
+// is only weighted as a hint.
+export function probeRuntimeEnable(): boolean {
+  let serialized = false
+  const probe = new Error("")
+  Object.defineProperty(probe, "stack", {
+    get() {
+      serialized = true
+      return ""
+    },
+  })
+  console.debug(probe)
+  return serialized
+}
+
+// The probe writes to the console, so it runs once per page rather than on every
+// detection pass.
+let runtimeProbe: boolean | null | undefined
+
+export function inspectInstrumentation(): InstrumentationFacts {
+  if (runtimeProbe === undefined) {
+    try {
+      runtimeProbe = probeRuntimeEnable()
+    } catch {
+      // console replaced with something that throws
+      runtimeProbe = null
+    }
+  }
+  return { hits: scanGlobals(), runtimeEnabled: runtimeProbe }
+}
+
+export function describeHits(hits: InstrumentationHit[]): string {
+  const byTool = new Map<AutomationTool, string[]>()
+  for (const h of hits) byTool.set(h.tool, [...byTool.get(h.tool) ?? [], h.source === "document" ? `document.${h.key}` : h.key])
+  return [...byTool].map(([tool, keys]) => `${tool}: ${keys.join(", ")}`).join("; ")
+}
+
+export function toolsOf(hits: InstrumentationHit[]): AutomationTool[] {
+  return [...new Set(hits.map(h => h.tool))]
+}
+
+export function lateInstrumentationSignal(hits: InstrumentationHit[]): SignalResult {
+  const tools = toolsOf(hits)
+  return signal("late-globals", `Automation globals injected after load${tools.length ? ` (${tools.join(", ")})` : ""}`, hits.length > 0, SIGNAL_WEIGHTS["late-globals"], hits.length ? describeHits(hits) : undefined)
+}
+
+// Re-scans window and document for tool bindings added after the page loaded, e.g.
+// by `page.exposeBinding` or a late `evaluate`. Only keys that were not there at
+// start are reported; the static detector covers the rest.
+export class InstrumentationWatcher {
+  private known = new Set<string>()
+  private found: InstrumentationHit[] = []
+  private timer: ReturnType<typeof setInterval> | null = null
+
+  constructor(private onHit: (hits: InstrumentationHit[]) => void, private intervalMs = WATCH_INTERVAL_MS) {}
+
+  start(signal?: AbortSignal): this {
+    if (this.timer || signal?.aborted) return this
+    scanGlobals().forEach(h => this.known.add(`${h.source}:${h.key}`))
+    this.timer = setInterval(() => this.check(), this.intervalMs)
+    signal?.addEventListener("abort", () => this.stop(), { once: true })
+    return this
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+
+  hits(): InstrumentationHit[] {
+    return [...this.found]
+  }
+
+  private check(): void {
+    const fresh = scanGlobals().filter(h => !this.known.has(`${h.source}:${h.key}`))
+    if (!fresh.length) return
+    fresh.forEach(h => this.known.add(`${h.source}:${h.key}`))
+    this.found.push(...fresh)
+    this.onHit(this.hits())
+  }
+}
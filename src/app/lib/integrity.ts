@@ -0,0 +1,158 @@
+// Lie detection: checks that the browser APIs the detectors read are still the
+// native ones. A spoofed value is hard to tell from a real one, but the spoofing
+// itself (an own property, a JS getter, a Proxy) leaves traces.
+
+export type IntegrityCheck =
+  // navigator has an own property shadowing the Navigator.prototype getter
+  | "own-property"
+  // the Navigator.prototype descriptor is a data property or has no getter
+  | "descriptor"
+  // the getter is not native or accepts a receiver that is not a Navigator
+  | "getter"
+  // a function's source is not "[native code]" under a pristine toString
+  | "native"
+  // the function is wrapped in a Proxy
+  | "proxy"
+  // Function.prototype.toString itself has been replaced
+  | "to-string"
+  // the value differs from the same property in a fresh iframe
+  | "iframe"
+
+export type IntegrityLie = {
+  target: string
+  check: IntegrityCheck
+}
+
+export type IntegrityFacts = {
+  lies: IntegrityLie[]
+  // Whether a same-origin iframe was available as the pristine reference.
+  iframe: boolean
+}
+
+export const NAVIGATOR_PROPERTIES = [
+  "webdriver", "languages", "plugins", "mimeTypes", "hardwareConcurrency",
+  "deviceMemory", "userAgent", "platform", "maxTouchPoints",
+]
+
+// Compared by value against the iframe's navigator.
+const COMPARED_PROPERTIES = ["webdriver", "languages", "hardwareConcurrency", "deviceMemory", "userAgent", "platform", "maxTouchPoints"]
+
+// Native functions that fingerprint spoofers commonly patch, as "Interface.prototype.method".
+export const NATIVE_FUNCTIONS = [
+  "PluginArray.prototype.item",
+  "MimeTypeArray.prototype.item",
+  "Permissions.prototype.query",
+  "HTMLCanvasElement.prototype.toDataURL",
+  "HTMLCanvasElement.prototype.getContext",
+  "CanvasRenderingContext2D.prototype.getImageData",
+  "WebGLRenderingContext.prototype.getParameter",
+  "Date.prototype.getTimezoneOffset",
+  "Intl.DateTimeFormat.prototype.resolvedOptions",
+  "Element.prototype.getBoundingClientRect",
+]
+
+type AnyFunction = (...args: unknown[]) => unknown
+type Realm = Window & typeof globalThis
+
+const NATIVE_SOURCE = /^function\s*[\w\s$]*\(\)\s*\{\s*\[native code\]\s*\}$/
+
+function resolve(root: object, path: string): unknown {
+  let value: unknown = root
+  for (const key of path.split(".")) {
+    if (value === null || value === undefined) return undefined
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+// A Proxy around a native function still stringifies as native code, but loses the
+// name: "function () { [native code] }" while `fn.name` reports the target's name.
+function inspectFunction(fn: AnyFunction, toString: (fn: AnyFunction) => string, target: string): IntegrityLie[] {
+  let source: string
+  try {
+    source = toString(fn)
+  } catch {
+    return [{ target, check: "native" }]
+  }
+  if (!NATIVE_SOURCE.test(source)) return [{ target, check: "native" }]
+  const lies: IntegrityLie[] = []
+  const named = source.replace(/^function\s*/, "").replace(/\s*\(.*$/s, "")
+  if (named !== fn.name) lies.push({ target, check: "proxy" })
+  // Native methods and getters have no prototype and only `length` and `name`.
+  if (Object.getOwnPropertyNames(fn).some(k => k !== "length" && k !== "name")) lies.push({ target, check: "native" })
+  return lies
+}
+
+function inspectNavigator(win: Realm, toString: (fn: AnyFunction) => string): IntegrityLie[] {
+  const lies: IntegrityLie[] = []
+  const proto = win.Navigator.prototype
+  const own = Object.getOwnPropertyNames(win.navigator)
+  for (const prop of NAVIGATOR_PROPERTIES) {
+    const target = `navigator.${prop}`
+    if (own.includes(prop)) lies.push({ target, check: "own-property" })
+    const desc = Object.getOwnPropertyDescriptor(proto, prop)
+    // Not every browser implements every property (deviceMemory, webdriver).
+    if (!desc) continue
+    if (!desc.get || "value" in desc) {
+      lies.push({ target, check: "descriptor" })
+      continue
+    }
+    lies.push(...inspectFunction(desc.get as AnyFunction, toString, target).map(l => ({ ...l, check: l.check === "native" ? "getter" as const : l.check })))
+    try {
+      desc.get.call(Object.create(proto))
+      lies.push({ target, check: "getter" })
+    } catch {
+      // native getters reject receivers that are not a real Navigator
+    }
+  }
+  return lies
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function freshRealm(): { realm: Realm, dispose: () => void } | null {
+  if (typeof document === "undefined" || !document.body) return null
+  const frame = document.createElement("iframe")
+  frame.style.display = "none"
+  frame.setAttribute("aria-hidden", "true")
+  document.body.appendChild(frame)
+  const realm = frame.contentWindow as Realm | null
+  if (!realm) {
+    frame.remove()
+    return null
+  }
+  return { realm, dispose: () => frame.remove() }
+}
+
+export function inspectIntegrity(win: Realm = window as Realm): IntegrityFacts {
+  const fresh = freshRealm()
+  try {
+    // The iframe's toString has not been touched by scripts running in this page.
+    const pristine = fresh?.realm.Function.prototype.toString ?? win.Function.prototype.toString
+    const toString = (fn: AnyFunction) => pristine.call(fn)
+    const lies: IntegrityLie[] = []
+
+    const ownToString = win.Function.prototype.toString as unknown as AnyFunction
+    if (inspectFunction(ownToString, toString, "Function.prototype.toString").length) {
+      lies.push({ target: "Function.prototype.toString", check: "to-string" })
+    }
+    for (const path of NATIVE_FUNCTIONS) {
+      const fn = resolve(win, path)
+      if (typeof fn === "function") lies.push(...inspectFunction(fn as AnyFunction, toString, path))
+    }
+    lies.push(...inspectNavigator(win, toString))
+
+    if (fresh) {
+      const nav = win.navigator as unknown as Record<string, unknown>
+      const ref = fresh.realm.navigator as unknown as Record<string, unknown>
+      for (const prop of COMPARED_PROPERTIES) {
+        if (!sameValue(nav[prop], ref[prop])) lies.push({ target: `navigator.${prop}`, check: "iframe" })
+      }
+    }
+    return { lies, iframe: !!fresh }
+  } finally {
+    fresh?.dispose()
+  }
+}
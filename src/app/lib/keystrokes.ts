@@ -0,0 +1,105 @@
+import type { InputRecord } from "./inputCollector"
+import { gradedSignal, type SignalResult } from "./signals"
+import { cv, fmt, mean } from "./stats"
+import { SIGNAL_WEIGHTS } from "./weights"
+
+export type KeySample = {
+  t: number
+  code: string
+  phase: "down" | "up"
+  repeat?: boolean
+}
+
+export type Keystroke = {
+  code: string
+  down: number
+  up: number
+}
+
+export type KeystrokeMetrics = {
+  strokes: number
+  dwell: number[]
+  flight: number[]
+  downDown: number[]
+  rollovers: number
+  digraphs: Map<string, number[]>
+}
+
+const MIN_STROKES = 8
+
+export function toKeySamples(records: InputRecord[]): KeySample[] {
+  return records
+    .filter(r => r.trusted && (r.type === "keydown" || r.type === "keyup") && r.code !== undefined)
+    .map(r => ({ t: r.t, code: r.code!, phase: r.type === "keydown" ? "down" : "up", repeat: r.repeat }))
+}
+
+// Pairs each keydown with the next keyup of the same physical key; auto-repeat
+// keydowns and keyups without a matching keydown are dropped.
+export function pairKeystrokes(samples: KeySample[]): Keystroke[] {
+  const pending = new Map<string, number>()
+  const strokes: Keystroke[] = []
+  for (const s of samples) {
+    if (s.phase === "down") {
+      if (!s.repeat && !pending.has(s.code)) pending.set(s.code, s.t)
+      continue
+    }
+    const down = pending.get(s.code)
+    if (down === undefined) continue
+    pending.delete(s.code)
+    strokes.push({ code: s.code, down, up: s.t })
+  }
+  return strokes.sort((a, b) => a.down - b.down)
+}
+
+export function keystrokeMetrics(strokes: Keystroke[]): KeystrokeMetrics {
+  const digraphs = new Map<string, number[]>()
+  const flight: number[] = []
+  const downDown: number[] = []
+  let rollovers = 0
+  for (let i = 1; i < strokes.length; i++) {
+    const prev = strokes[i - 1]
+    const cur = strokes[i]
+    const dd = cur.down - prev.down
+    // Long pauses are thinking time, not typing rhythm.
+    if (dd > 2000) continue
+    downDown.push(dd)
+    flight.push(cur.down - prev.up)
+    if (cur.down < prev.up) rollovers++
+    const key = `${prev.code}>${cur.code}`
+    digraphs.set(key, [...(digraphs.get(key) ?? []), dd])
+  }
+  return { strokes: strokes.length, dwell: strokes.map(s => s.up - s.down), flight, downDown, rollovers, digraphs }
+}
+
+export function analyzeKeystrokes(samples: KeySample[]): SignalResult[] {
+  const m = keystrokeMetrics(pairKeystrokes(samples))
+  const enough = m.strokes >= MIN_STROKES
+  const short = enough ? "" : ` (insufficient data, need ${MIN_STROKES})`
+
+  const dwellMean = mean(m.dwell)
+  const dwellCV = cv(m.dwell)
+  const dwellSeverity = !enough ? 0 : dwellMean < 5 ? 1 : Math.max(0, 1 - dwellCV / 0.2)
+
+  const cadenceCV = cv(m.downDown)
+  const cadenceSeverity = enough ? Math.max(0, 1 - cadenceCV / 0.2) : 0
+
+  const rolloverRate = m.downDown.length ? m.rollovers / m.downDown.length : 0
+  const rolloverSeverity = m.strokes >= 20 ? Math.max(0, 1 - rolloverRate / 0.05) : 0
+
+  // People type familiar letter pairs faster than awkward ones; a script types
+  // every pair at the same speed.
+  const pairs = [...m.digraphs.values()]
+  const digraphSpread = cv(pairs.map(mean))
+  const digraphSeverity = pairs.length >= 4 ? Math.max(0, 1 - digraphSpread / 0.15) : 0
+
+  return [
+    gradedSignal("keys-dwell", "Key hold times are uniform or instantaneous", dwellSeverity, 0.6, SIGNAL_WEIGHTS["keys-dwell"],
+      `n=${m.strokes}, dwell≈${fmt(dwellMean, 1)}ms, cv=${fmt(dwellCV)}${short}`),
+    gradedSignal("keys-cadence", "Typing cadence is machine-regular", cadenceSeverity, 0.5, SIGNAL_WEIGHTS["keys-cadence"],
+      `n=${m.downDown.length}, downDown≈${fmt(mean(m.downDown), 1)}ms, flight≈${fmt(mean(m.flight), 1)}ms, cv=${fmt(cadenceCV)}${short}`),
+    gradedSignal("keys-rollover", "Keys never overlap", rolloverSeverity, 0.9, SIGNAL_WEIGHTS["keys-rollover"],
+      `rollovers=${m.rollovers}/${m.downDown.length}${m.strokes >= 20 ? "" : " (insufficient data, need 20)"}`),
+    gradedSignal("keys-digraph", "Every key pair is typed at the same speed", digraphSeverity, 0.6, SIGNAL_WEIGHTS["keys-digraph"],
+      `digraphs=${pairs.length}, spread=${fmt(digraphSpread)}${pairs.length >= 4 ? "" : " (insufficient data, need 4)"}`),
+  ]
+}
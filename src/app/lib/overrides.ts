@@ -0,0 +1,200 @@
+// Debug overrides for demos and QA: force single detectors on or off, answer the
+// detectors from a named device profile, and freeze the input probes. Read from the
+// query string or from localStorage, and only when `overridesAllowed()`.
+
+import { applyBaseline, applyCurrentBaseline, claimPlatform, type ClientHints } from "./coherence"
+import type { ContextFacts } from "./crossContext"
+import { overridesAllowed } from "./debug"
+import type { DetectorConfig } from "./detectorRegistry"
+import { liveEnv, type DetectionEnv, type NavigatorFacts, type ScreenFacts, type WebGLInfo, type WindowFacts } from "./env"
+import type { SignalResult } from "./signals"
+
+export type DeviceProfile = {
+  label: string
+  navigator: Partial<NavigatorFacts> & { userAgent: string }
+  clientHints: ClientHints | null
+  screen: ScreenFacts
+  webgl: WebGLInfo
+  fonts: string[]
+  window?: Partial<WindowFacts>
+}
+
+export const DEVICE_PROFILES = {
+  "iphone-safari": {
+    label: "iPhone 15, Safari 17",
+    navigator: {
+      userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1",
+      platform: "iPhone",
+      maxTouchPoints: 5,
+      pluginsLength: 0,
+      languages: ["en-US"],
+      hardwareConcurrency: 4,
+      deviceMemory: null,
+      webdriver: false,
+    },
+    clientHints: null,
+    screen: { width: 393, height: 852, colorDepth: 24, pixelRatio: 3 },
+    webgl: { vendor: "Apple Inc.", renderer: "Apple GPU", extCount: 30 },
+    fonts: ["Arial", "Courier New", "Georgia", "Helvetica", "Helvetica Neue", "Times New Roman", "Trebuchet MS", "Verdana"],
+    window: { chromeAppInstalled: null },
+  },
+  "windows-chrome": {
+    label: "Windows 11 desktop, Chrome 124",
+    navigator: {
+      userAgent: "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36",
+      platform: "Win32",
+      maxTouchPoints: 0,
+      pluginsLength: 5,
+      languages: ["en-US", "en"],
+      hardwareConcurrency: 8,
+      deviceMemory: 8,
+      webdriver: false,
+    },
+    clientHints: { platform: "Windows", mobile: false, brands: ["Chromium", "Google Chrome", "Not-A.Brand"], platformVersion: "15.0.0", architecture: "x86" },
+    screen: { width: 1920, height: 1080, colorDepth: 24, pixelRatio: 1 },
+    webgl: { vendor: "Google Inc. (NVIDIA)", renderer: "ANGLE (NVIDIA, NVIDIA GeForce RTX 3060 Direct3D11 vs_5_0 ps_5_0, D3D11)", extCount: 38 },
+    fonts: ["Arial", "Arial Black", "Calibri", "Cambria", "Comic Sans MS", "Consolas", "Courier New", "Georgia", "Segoe UI", "Tahoma", "Times New Roman", "Trebuchet MS", "Verdana"],
+  },
+  "headless-linux-chrome": {
+    label: "Headless Chrome 124 on Linux",
+    navigator: {
+      userAgent: "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/124.0.0.0 Safari/537.36",
+      platform: "Linux x86_64",
+      maxTouchPoints: 0,
+      pluginsLength: 0,
+      languages: ["en-US"],
+      hardwareConcurrency: 2,
+      deviceMemory: 8,
+      webdriver: true,
+    },
+    clientHints: { platform: "Linux", mobile: false, brands: ["HeadlessChrome", "Chromium", "Not-A.Brand"] },
+    screen: { width: 800, height: 600, colorDepth: 24, pixelRatio: 1 },
+    webgl: { vendor: "Google Inc. (Google)", renderer: "ANGLE (Google, Vulkan 1.3.0 (SwiftShader Device (Subzero) (0x0000C0DE)), SwiftShader driver)", extCount: 14 },
+    fonts: ["DejaVu Sans", "Liberation Sans"],
+  },
+} satisfies Record<string, DeviceProfile>
+
+export type DeviceProfileName = keyof typeof DEVICE_PROFILES
+
+export type Overrides = {
+  // Detector ids reported suspicious (`force`) or clean (`clear`) whatever they measure.
+  force: string[]
+  clear: string[]
+  profile?: DeviceProfileName
+  // Pauses the activity probe, continuous input scoring and attention tracking.
+  freeze: boolean
+  source: "query" | "local"
+}
+
+export const OVERRIDES_STORAGE_KEY = "bot-detector:overrides"
+
+// What `?forceAutomation=true` stands for.
+const FORCE_AUTOMATION = ["webdriver", "automation-globals"]
+const QUERY_KEYS = ["force", "clear", "profile", "freeze", "forceAutomation"]
+
+const list = (value: unknown) =>
+  (Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [])
+    .filter((id): id is string => typeof id === "string")
+    .map(id => id.trim())
+    .filter(Boolean)
+
+const isProfile = (name: unknown): name is DeviceProfileName =>
+  typeof name === "string" && Object.hasOwn(DEVICE_PROFILES, name)
+
+export function parseOverrides(input: unknown, source: Overrides["source"]): Overrides | null {
+  const raw = (input ?? {}) as Record<string, unknown>
+  const force = [...new Set([...list(raw.force), ...(raw.forceAutomation === true || raw.forceAutomation === "true" ? FORCE_AUTOMATION : [])])]
+  const clear = list(raw.clear).filter(id => !force.includes(id))
+  const profile = isProfile(raw.profile) ? raw.profile : undefined
+  const freeze = raw.freeze === true || raw.freeze === "1" || raw.freeze === "true"
+  if (!force.length && !clear.length && !profile && !freeze) return null
+  return { force, clear, ...(profile ? { profile } : {}), freeze, source }
+}
+
+// `?overrides=save` keeps the query's overrides in localStorage for later visits;
+// `?overrides=off` forgets them.
+export function readOverrides(search: string, storage?: Storage): Overrides | null {
+  if (!overridesAllowed()) return null
+  const params = new URLSearchParams(search)
+  const command = params.get("overrides")
+  if (command === "off") {
+    storage?.removeItem(OVERRIDES_STORAGE_KEY)
+    return null
+  }
+  if (QUERY_KEYS.some(k => params.has(k))) {
+    const fromQuery = parseOverrides(Object.fromEntries(params), "query")
+    if (command === "save" && fromQuery) storage?.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(fromQuery))
+    return fromQuery
+  }
+  try {
+    const stored = storage?.getItem(OVERRIDES_STORAGE_KEY)
+    return stored ? parseOverrides(JSON.parse(stored), "local") : null
+  } catch {
+    return null
+  }
+}
+
+let active: Overrides | null | undefined
+
+// The page's overrides, read once per load.
+export function loadOverrides(): Overrides | null {
+  if (active === undefined) {
+    if (typeof window === "undefined") return null
+    let storage: Storage | undefined
+    try {
+      storage = window.localStorage
+    } catch {
+      // storage blocked
+    }
+    active = readOverrides(window.location.search, storage)
+  }
+  return active
+}
+
+export function overridesConfig(overrides: Overrides): DetectorConfig {
+  const detectors: NonNullable<DetectorConfig["detectors"]> = {}
+  overrides.force.forEach(id => detectors[id] = { force: true })
+  overrides.clear.forEach(id => detectors[id] = { force: false })
+  return { detectors }
+}
+
+// Answers navigator, Client Hints, screen, WebGL and font reads from the profile and
+// everything else from `base`.
+export function profileEnv(profile: DeviceProfile, base: DetectionEnv = liveEnv): DetectionEnv {
+  const navigatorFacts = (): NavigatorFacts => ({ ...base.navigator(), ...profile.navigator })
+  return {
+    ...base,
+    navigator: navigatorFacts,
+    clientHints: async () => profile.clientHints,
+    screen: () => profile.screen,
+    webgl: () => profile.webgl,
+    fonts: () => profile.fonts,
+    window: () => ({ ...base.window(), ...profile.window }),
+    // A worker or iframe would report the real device, so they answer as the profile.
+    realms: async () => {
+      const nav = navigatorFacts()
+      const facts: ContextFacts = {
+        userAgent: nav.userAgent,
+        languages: nav.languages,
+        hardwareConcurrency: nav.hardwareConcurrency,
+        platform: nav.platform,
+        timeZone: base.timeZone(),
+        webglVendor: profile.webgl.vendor ?? null,
+        webglRenderer: profile.webgl.renderer ?? null,
+      }
+      return { worker: facts, iframe: facts }
+    },
+  }
+}
+
+export function overrideEnv(overrides: Overrides | null): DetectionEnv | undefined {
+  return overrides?.profile ? profileEnv(DEVICE_PROFILES[overrides.profile]) : undefined
+}
+
+// `applyCurrentBaseline` for the profile's platform when one is loaded.
+export function applyOverrideBaseline(results: SignalResult[]): SignalResult[] {
+  const profile = loadOverrides()?.profile
+  if (!profile) return applyCurrentBaseline(results)
+  const { navigator: nav, clientHints } = DEVICE_PROFILES[profile] as DeviceProfile
+  return applyBaseline(results, claimPlatform(nav.userAgent, clientHints, nav.maxTouchPoints ?? 0))
+}
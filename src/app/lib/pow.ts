@@ -0,0 +1,58 @@
+// Client side of the proof-of-work challenge: finds a counter whose
+// SHA-256(`${id}:${counter}`) starts with `difficulty` zero bits, off the main thread.
+
+export type PowProgress = { attempts: number }
+
+// Serialized into the worker, so it must not reference anything outside itself.
+function solveInWorker() {
+  const zeroBits = (bytes: Uint8Array) => {
+    let bits = 0
+    for (const b of bytes) {
+      if (b === 0) {
+        bits += 8
+        continue
+      }
+      return bits + Math.clz32(b) - 24
+    }
+    return bits
+  }
+  onmessage = async (e: MessageEvent<{ id: string, difficulty: number }>) => {
+    const { id, difficulty } = e.data
+    const encoder = new TextEncoder()
+    for (let n = 0; ; n++) {
+      const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(`${id}:${n}`)))
+      if (zeroBits(hash) >= difficulty) {
+        postMessage({ counter: String(n), attempts: n + 1 })
+        return
+      }
+      if (n % 2048 === 0) postMessage({ attempts: n })
+    }
+  }
+}
+
+// Resolves null when workers are unavailable or the signal aborts.
+export function solvePow(
+  id: string,
+  difficulty: number,
+  { signal, onProgress }: { signal?: AbortSignal, onProgress?: (p: PowProgress) => void } = {}
+): Promise<string | null> {
+  if (typeof Worker === "undefined" || signal?.aborted) return Promise.resolve(null)
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(new Blob([`(${solveInWorker})()`], { type: "text/javascript" }))
+    const worker = new Worker(url)
+    const finish = (counter: string | null) => {
+      worker.terminate()
+      URL.revokeObjectURL(url)
+      signal?.removeEventListener("abort", abort)
+      resolve(counter)
+    }
+    const abort = () => finish(null)
+    worker.onmessage = (e: MessageEvent<{ counter?: string, attempts: number }>) => {
+      if (e.data.counter !== undefined) finish(e.data.counter)
+      else onProgress?.({ attempts: e.data.attempts })
+    }
+    worker.onerror = () => finish(null)
+    signal?.addEventListener("abort", abort, { once: true })
+    worker.postMessage({ id, difficulty })
+  })
+}
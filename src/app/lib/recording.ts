@@ -0,0 +1,126 @@
+import { analyzeActivity, analyzeBehavior, type ProbeOptions } from "./botDetector"
+import { getInputCollector, type InputRecord } from "./inputCollector"
+import type { SignalResult } from "./signals"
+
+export type RecordingLabel = "human" | "bot"
+
+// One event: type index, milliseconds since the previous event, then only the
+// fields the event actually had, under short keys.
+export type CompactEvent = {
+  k: number
+  d: number
+  u?: 1
+  x?: number
+  y?: number
+  p?: string
+  pr?: number
+  b?: number
+  w?: number
+  h?: number
+  c?: number
+  mx?: number
+  my?: number
+  ts?: number
+  cd?: string
+  r?: 1
+}
+
+export type InputRecording = {
+  version: 1
+  startedAt: number
+  durationMs: number
+  maxTouchPoints: number
+  userAgent?: string
+  label?: RecordingLabel
+  types: string[]
+  events: CompactEvent[]
+}
+
+export type RecordingAnalysis = {
+  probe: SignalResult[]
+  behavior: SignalResult[]
+}
+
+export type RecordOptions = ProbeOptions & {
+  label?: RecordingLabel
+}
+
+const FIELDS = [
+  ["x", "x"], ["y", "y"], ["pointerType", "p"], ["pressure", "pr"], ["buttons", "b"],
+  ["width", "w"], ["height", "h"], ["coalesced", "c"], ["movementX", "mx"], ["movementY", "my"],
+  ["targetSize", "ts"], ["code", "cd"],
+] as const
+
+// Event timestamps have at best microsecond resolution, so rounding offsets to
+// 0.001ms loses nothing and keeps the encoding exact across a round trip.
+const roundTime = (t: number) => Math.round(t * 1000) / 1000
+
+export function encodeRecording(
+  records: InputRecord[],
+  { durationMs, maxTouchPoints, label, userAgent, startedAt = Date.now() }: Omit<InputRecording, "version" | "types" | "events" | "startedAt"> & { startedAt?: number }
+): InputRecording {
+  const types: string[] = []
+  const origin = records[0]?.t ?? 0
+  let prev = 0
+  const events = records.map(r => {
+    let k = types.indexOf(r.type)
+    if (k < 0) k = types.push(r.type) - 1
+    const at = roundTime(r.t - origin)
+    const e: CompactEvent = { k, d: roundTime(at - prev) }
+    prev = at
+    if (!r.trusted) e.u = 1
+    for (const [long, short] of FIELDS) {
+      if (r[long] !== undefined) (e as Record<string, unknown>)[short] = r[long]
+    }
+    if (r.repeat) e.r = 1
+    return e
+  })
+  return { version: 1, startedAt, durationMs, maxTouchPoints, userAgent, label, types, events }
+}
+
+export function decodeRecording(recording: InputRecording): InputRecord[] {
+  let at = 0
+  return recording.events.map(e => {
+    at = roundTime(at + e.d)
+    const r: InputRecord = { type: recording.types[e.k], t: at, trusted: e.u !== 1 }
+    for (const [long, short] of FIELDS) {
+      const v = e[short]
+      if (v !== undefined) (r as Record<string, unknown>)[long] = v
+    }
+    if (e.r === 1) r.repeat = true
+    return r
+  })
+}
+
+export function parseRecording(input: unknown): InputRecording {
+  const r = input as InputRecording | undefined
+  if (r?.version !== 1 || !Array.isArray(r.types) || !Array.isArray(r.events)) throw new Error("Not a version 1 input recording")
+  return r
+}
+
+// Runs the probe and behavioral analyzers exactly as a live probe does.
+export function replayRecording(recording: InputRecording): RecordingAnalysis {
+  const records = decodeRecording(recording)
+  return {
+    probe: analyzeActivity(records, recording.durationMs),
+    behavior: analyzeBehavior(records, recording.maxTouchPoints),
+  }
+}
+
+// An activity probe that keeps its raw input. The signals are computed from the
+// decoded recording, so replaying the export always reproduces them.
+export async function recordActivityProbe(
+  ms = 5000,
+  { signal, collector = getInputCollector(), label }: RecordOptions = {}
+): Promise<{ recording: InputRecording, analysis: RecordingAnalysis }> {
+  const startedAt = Date.now()
+  const records = await collector.observe(ms, signal)
+  const recording = encodeRecording(records, {
+    durationMs: ms,
+    maxTouchPoints: navigator.maxTouchPoints ?? 0,
+    userAgent: navigator.userAgent,
+    label,
+    startedAt,
+  })
+  return { recording, analysis: replayRecording(recording) }
+}
@@ -0,0 +1,164 @@
+import { analyzeBehavior, summarize, type Summary } from "./botDetector"
+import { getInputCollector, type InputCollector } from "./inputCollector"
+import { decayFactor, EVIDENCE_HALF_LIFE_MS, MIN_DECAY, type SignalResult } from "./signals"
+
+export type RiskLevel = Summary["level"]
+
+export type RiskMonitorOptions = {
+  windowMs?: number
+  intervalMs?: number
+  halfLifeMs?: number
+  collector?: InputCollector
+  adjust?: (results: SignalResult[]) => SignalResult[]
+}
+
+export type ObserveOptions = {
+  decay?: boolean
+}
+
+export type LevelChange = {
+  previous: RiskLevel | null
+  level: RiskLevel
+  summary: Summary
+  at: number
+}
+
+export type RiskUpdate = {
+  summary: Summary
+  results: SignalResult[]
+}
+
+type Evidence = {
+  result: SignalResult
+  at: number
+  decays: boolean
+}
+
+const DEFAULT_WINDOW_MS = 30_000
+const DEFAULT_INTERVAL_MS = 1000
+
+export class RiskMonitor {
+  private evidence = new Map<string, Evidence>()
+  private input: SignalResult[] = []
+  private summary: Summary | null = null
+  private levelListeners = new Set<(change: LevelChange) => void>()
+  private signalListeners = new Set<(result: SignalResult) => void>()
+  private updateListeners = new Set<(update: RiskUpdate) => void>()
+  private stopWatching?: () => void
+
+  constructor(private options: RiskMonitorOptions = {}) {}
+
+  get running(): boolean {
+    return !!this.stopWatching
+  }
+
+  // Re-scores the last `windowMs` of input every `intervalMs` until stopped.
+  start(signal?: AbortSignal): this {
+    if (this.stopWatching || signal?.aborted) return this
+    const collector = this.options.collector ?? getInputCollector()
+    const stop = collector.watch(records => this.setInput(analyzeBehavior(records)), {
+      windowMs: this.options.windowMs ?? DEFAULT_WINDOW_MS,
+      intervalMs: this.options.intervalMs ?? DEFAULT_INTERVAL_MS,
+      signal,
+    })
+    this.stopWatching = stop
+    signal?.addEventListener("abort", () => this.stop(), { once: true })
+    return this
+  }
+
+  stop(): void {
+    this.stopWatching?.()
+    this.stopWatching = undefined
+  }
+
+  reset(): void {
+    this.evidence.clear()
+    this.input = []
+    this.summary = null
+  }
+
+  // Records evidence from outside the input stream (static detectors, probes,
+  // server signals). Decaying evidence fades with `halfLifeMs`.
+  observe(results: SignalResult[], { decay = true }: ObserveOptions = {}): this {
+    const at = Date.now()
+    for (const result of results) {
+      const prev = this.evidence.get(result.id)?.result
+      this.evidence.set(result.id, { result, at, decays: decay })
+      if (!prev || prev.suspicious !== result.suspicious) this.emitSignal(result)
+    }
+    this.rescore()
+    return this
+  }
+
+  results(now = Date.now()): SignalResult[] {
+    const halfLife = this.options.halfLifeMs ?? EVIDENCE_HALF_LIFE_MS
+    const observed: SignalResult[] = []
+    for (const [id, e] of this.evidence) {
+      if (!e.decays) {
+        observed.push(e.result)
+        continue
+      }
+      const age = now - e.at
+      const factor = decayFactor(age, halfLife)
+      if (factor < MIN_DECAY) {
+        this.evidence.delete(id)
+        continue
+      }
+      // The age goes to the server with the result, which decays it the same way.
+      observed.push({ ...e.result, weight: +(e.result.weight * factor).toFixed(2), age })
+    }
+    return [...observed, ...this.input]
+  }
+
+  getSummary(): Summary | null {
+    return this.summary
+  }
+
+  onLevelChange(listener: (change: LevelChange) => void): () => void {
+    this.levelListeners.add(listener)
+    return () => this.levelListeners.delete(listener)
+  }
+
+  onSignal(listener: (result: SignalResult) => void): () => void {
+    this.signalListeners.add(listener)
+    return () => this.signalListeners.delete(listener)
+  }
+
+  onUpdate(listener: (update: RiskUpdate) => void): () => void {
+    this.updateListeners.add(listener)
+    return () => this.updateListeners.delete(listener)
+  }
+
+  private setInput(results: SignalResult[]): void {
+    const prev = new Map(this.input.map(r => [r.id, r]))
+    this.input = results
+    results.forEach(r => {
+      if (prev.get(r.id)?.suspicious !== r.suspicious) this.emitSignal(r)
+    })
+    this.rescore()
+  }
+
+  private rescore(): void {
+    const results = this.results()
+    const scored = this.options.adjust ? this.options.adjust(results) : results
+    const summary = summarize(scored)
+    const previous = this.summary?.level ?? null
+    this.summary = summary
+    this.updateListeners.forEach(l => l({ summary, results }))
+    if (previous !== summary.level) {
+      const change = { previous, level: summary.level, summary, at: Date.now() }
+      this.levelListeners.forEach(l => l(change))
+    }
+  }
+
+  private emitSignal(result: SignalResult): void {
+    this.signalListeners.forEach(l => l(result))
+  }
+}
+
+let shared: RiskMonitor | undefined
+
+export function getRiskMonitor(options?: RiskMonitorOptions): RiskMonitor {
+  shared ??= new RiskMonitor(options)
+  return shared
+}
@@ -0,0 +1,138 @@
+import { baseSignalId, type SignalResult } from "./signals"
+
+export type ScoringStrategy = "linear" | "bayes"
+
+export type RiskLevel = "low" | "medium" | "high"
+
+// Likelihood ratios P(observation | bot) / P(observation | human) for one signal.
+export type Likelihood = {
+  suspicious?: number
+  clean?: number
+}
+
+export type ScoringModel = {
+  strategy?: ScoringStrategy
+  // P(bot) before any evidence is seen.
+  prior?: number
+  likelihoods?: Record<string, Likelihood>
+  // Signals that decide the verdict on their own when they fire.
+  hardEvidence?: string[]
+  thresholds?: { medium: number, high: number }
+}
+
+export type Contributor = {
+  id: string
+  name: string
+  contribution: number
+}
+
+export type Summary = {
+  score: number
+  max: number
+  level: RiskLevel
+  probability: number
+  strategy: ScoringStrategy
+  contributors: Contributor[]
+  forcedBy?: string[]
+}
+
+// A passed step-up challenge divides the odds by this much; a failed or skipped one is
+// hard evidence.
+export const CHALLENGE_PASS_LR = 0.2
+
+export const DEFAULT_MODEL: Required<ScoringModel> = {
+  strategy: "bayes",
+  prior: 0.1,
+  likelihoods: { challenge: { clean: CHALLENGE_PASS_LR } },
+  hardEvidence: ["webdriver", "automation-globals", "automation-bindings", "late-globals", "challenge"],
+  thresholds: { medium: 0.4, high: 0.7 },
+}
+
+const TOP_CONTRIBUTORS = 5
+const FORCED_PROBABILITY = 0.99
+
+let activeModel: ScoringModel = {}
+
+export function setScoringModel(model: ScoringModel = {}): void {
+  activeModel = model
+}
+
+export function getScoringModel(): ScoringModel {
+  return activeModel
+}
+
+const logit = (p: number) => Math.log(p / (1 - p))
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x))
+const positive = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v) && v > 0
+
+// Without a calibrated ratio a suspicious signal doubles the odds per unit of weight,
+// and a clean one is neutral so that adding detectors never dilutes real evidence.
+function logLikelihood(s: SignalResult, model: Required<ScoringModel>): number {
+  const lr = model.likelihoods[baseSignalId(s.id)]
+  if (s.suspicious) return Math.log(lr?.suspicious ?? 2 ** s.weight) * (s.severity ?? 1)
+  return Math.log(lr?.clean ?? 1)
+}
+
+export function summarize(results: SignalResult[], overrides: ScoringModel = activeModel): Summary {
+  const model = { ...DEFAULT_MODEL, ...overrides }
+  model.likelihoods = { ...DEFAULT_MODEL.likelihoods, ...overrides.likelihoods }
+  const score = results.reduce((a, s) => a + (s.suspicious ? s.weight * (s.severity ?? 1) : 0), 0)
+  const max = results.reduce((a, s) => a + s.weight, 0)
+
+  const terms = results.map(s => ({
+    s,
+    c: model.strategy === "linear"
+      ? (s.suspicious && max > 0 ? s.weight * (s.severity ?? 1) / max : 0)
+      : logLikelihood(s, model),
+  }))
+  let probability = model.strategy === "linear"
+    ? (max > 0 ? score / max : 0)
+    : sigmoid(logit(model.prior) + terms.reduce((a, t) => a + t.c, 0))
+
+  const forcedBy = results
+    .filter(s => s.suspicious && model.hardEvidence.includes(baseSignalId(s.id)))
+    .map(s => s.id)
+  if (forcedBy.length) probability = Math.max(probability, FORCED_PROBABILITY)
+
+  const { medium, high } = model.thresholds
+  const level = forcedBy.length || probability >= high ? "high" : probability >= medium ? "medium" : "low"
+  const contributors = terms
+    .filter(t => t.c > 0)
+    .sort((a, b) => b.c - a.c)
+    .slice(0, TOP_CONTRIBUTORS)
+    .map(({ s, c }) => ({ id: s.id, name: s.name, contribution: +c.toFixed(2) }))
+
+  return {
+    score: +score.toFixed(1),
+    max: +max.toFixed(1),
+    level,
+    probability: +probability.toFixed(3),
+    strategy: model.strategy,
+    contributors,
+    ...(forcedBy.length ? { forcedBy } : {}),
+  }
+}
+
+export function parseScoringModel(input: unknown): ScoringModel | undefined {
+  if (!input || typeof input !== "object") return undefined
+  const raw = input as Record<string, unknown>
+  const model: ScoringModel = {}
+  if (raw.strategy === "linear" || raw.strategy === "bayes") model.strategy = raw.strategy
+  if (positive(raw.prior) && raw.prior < 1) model.prior = raw.prior
+  if (Array.isArray(raw.hardEvidence)) model.hardEvidence = raw.hardEvidence.filter(id => typeof id === "string")
+  const t = raw.thresholds as { medium?: unknown, high?: unknown } | undefined
+  if (positive(t?.medium) && positive(t?.high) && t.medium <= t.high && t.high <= 1) {
+    model.thresholds = { medium: t.medium, high: t.high }
+  }
+  if (raw.likelihoods && typeof raw.likelihoods === "object") {
+    model.likelihoods = {}
+    for (const [id, lr] of Object.entries(raw.likelihoods as Record<string, Likelihood>)) {
+      if (!lr || typeof lr !== "object") continue
+      model.likelihoods[id] = {
+        ...(positive(lr.suspicious) ? { suspicious: lr.suspicious } : {}),
+        ...(positive(lr.clean) ? { clean: lr.clean } : {}),
+      }
+    }
+  }
+  return model
+}
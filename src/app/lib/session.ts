@@ -0,0 +1,116 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { secret } from "./verdict"
+
+// A detection session: the server hands out a signed nonce and a key derived from it,
+// and every payload the page sends is sealed with that key. Nothing is stored per
+// session except the recent sequence numbers seen, so a nonce can be checked statelessly.
+
+export type Session = {
+  nonce: string
+  // base64url HMAC-SHA256 key for sealing payloads in this session.
+  key: string
+  expiresAt: number
+}
+
+export type EnvelopePayload = {
+  nonce: string
+  // Increases with every payload sealed in the session.
+  seq: number
+  // Wall-clock time the payload was sealed.
+  sealedAt: number
+  // Time spent collecting since the session was opened (performance.now based).
+  elapsedMs: number
+  client?: unknown
+  results: unknown
+}
+
+export type SealedEnvelope = {
+  payload: string
+  mac: string
+}
+
+export type EnvelopeError = "malformed" | "bad-nonce" | "expired" | "bad-mac" | "stale" | "replayed" | "implausible-timing"
+
+export type OpenedEnvelope =
+  | { ok: true, payload: EnvelopePayload }
+  | { ok: false, error: EnvelopeError }
+
+export const SESSION_TTL_MS = 15 * 60 * 1000
+const MAX_PAYLOAD_AGE_MS = 30 * 1000
+const CLOCK_SKEW_MS = 5 * 1000
+const MAX_TRACKED_SESSIONS = 10_000
+// Payloads sealed concurrently can arrive out of order; any sequence number this close
+// to the highest one seen is accepted once.
+const SEQ_WINDOW = 32
+
+const b64url = (buf: Buffer) => buf.toString("base64url")
+const mac = (key: Buffer | string, data: string) => createHmac("sha256", key).update(data).digest()
+const sessionKey = (nonce: string) => mac(secret(), `envelope:${nonce}`)
+
+// Recent sequence numbers per nonce, least recently used first. Per process:
+// deployments with several instances need sticky sessions or a shared store for
+// replay protection to hold.
+const sequences = new Map<string, { highest: number, seen: Set<number> }>()
+
+function acceptSeq(nonce: string, seq: number): boolean {
+  const entry = sequences.get(nonce) ?? { highest: 0, seen: new Set<number>() }
+  if (seq <= entry.highest - SEQ_WINDOW || entry.seen.has(seq)) return false
+  entry.seen.add(seq)
+  if (seq > entry.highest) {
+    entry.highest = seq
+    for (const s of entry.seen) if (s <= seq - SEQ_WINDOW) entry.seen.delete(s)
+  }
+  sequences.delete(nonce)
+  sequences.set(nonce, entry)
+  // Bounded by count, not by expiry: the least recently active session is forgotten.
+  if (sequences.size > MAX_TRACKED_SESSIONS) sequences.delete(sequences.keys().next().value!)
+  return true
+}
+
+export function issueSession(now = Date.now()): Session {
+  const body = `s1.${b64url(randomBytes(16))}.${now}`
+  const nonce = `${body}.${b64url(mac(secret(), body)).slice(0, 22)}`
+  return { nonce, key: b64url(sessionKey(nonce)), expiresAt: now + SESSION_TTL_MS }
+}
+
+// Returns when the nonce was issued, or null if it was not issued by this server.
+export function verifyNonce(nonce: string): number | null {
+  const parts = nonce.split(".")
+  if (parts.length !== 4 || parts[0] !== "s1") return null
+  const body = parts.slice(0, 3).join(".")
+  const expected = Buffer.from(b64url(mac(secret(), body)).slice(0, 22))
+  const given = Buffer.from(parts[3])
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null
+  const issuedAt = Number(parts[2])
+  return Number.isFinite(issuedAt) ? issuedAt : null
+}
+
+export function openEnvelope(sealed: unknown, now = Date.now()): OpenedEnvelope {
+  const { payload: raw, mac: given } = (sealed ?? {}) as Partial<SealedEnvelope>
+  if (typeof raw !== "string" || typeof given !== "string") return { ok: false, error: "malformed" }
+  let payload: EnvelopePayload
+  try {
+    payload = JSON.parse(raw) as EnvelopePayload
+  } catch {
+    return { ok: false, error: "malformed" }
+  }
+  if (typeof payload?.nonce !== "string" || !Number.isInteger(payload.seq) || payload.seq < 1
+    || typeof payload.sealedAt !== "number" || typeof payload.elapsedMs !== "number") {
+    return { ok: false, error: "malformed" }
+  }
+
+  const issuedAt = verifyNonce(payload.nonce)
+  if (issuedAt === null) return { ok: false, error: "bad-nonce" }
+  if (now - issuedAt > SESSION_TTL_MS) return { ok: false, error: "expired" }
+
+  const expected = mac(sessionKey(payload.nonce), raw)
+  const signature = Buffer.from(given, "base64url")
+  if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) return { ok: false, error: "bad-mac" }
+
+  if (now - payload.sealedAt > MAX_PAYLOAD_AGE_MS || payload.sealedAt < issuedAt - CLOCK_SKEW_MS) return { ok: false, error: "stale" }
+  // Collection cannot have taken longer than the session has existed.
+  if (payload.elapsedMs < 0 || payload.elapsedMs > now - issuedAt + CLOCK_SKEW_MS) return { ok: false, error: "implausible-timing" }
+
+  if (!acceptSeq(payload.nonce, payload.seq)) return { ok: false, error: "replayed" }
+  return { ok: true, payload }
+}
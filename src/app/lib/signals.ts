@@ -0,0 +1,47 @@
+export type SignalResult = {
+  id: string
+  name: string
+  suspicious: boolean
+  weight: number
+  details?: string
+  severity?: number
+  // Milliseconds since decaying evidence was observed; absent when it does not decay.
+  age?: number
+}
+
+// Payloads longer than this are rejected by the verdict API.
+export const MAX_SIGNALS = 200
+export const EVIDENCE_HALF_LIFE_MS = 120_000
+// Evidence decayed below this share of its weight is dropped rather than scored.
+export const MIN_DECAY = 0.01
+
+export function decayFactor(age = 0, halfLifeMs = EVIDENCE_HALF_LIFE_MS): number {
+  return 0.5 ** (age / halfLifeMs)
+}
+
+// Probe results are re-keyed per run as `<id>-probe-<i>-<ts>`.
+export function baseSignalId(id: string): string {
+  return id.replace(/-probe-\d+-\d+$/, "")
+}
+
+export function signal(
+  id: string,
+  name: string,
+  suspicious: boolean,
+  weight: number,
+  details?: string
+): SignalResult {
+  return { id, name, suspicious, weight, details }
+}
+
+export function gradedSignal(
+  id: string,
+  name: string,
+  severity: number,
+  threshold: number,
+  weight: number,
+  details?: string
+): SignalResult {
+  const s = Math.max(0, Math.min(1, severity))
+  return { id, name, suspicious: s >= threshold, weight, details, severity: +s.toFixed(2) }
+}
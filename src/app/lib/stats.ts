@@ -0,0 +1,20 @@
+export const mean = (xs: number[]) => xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0
+
+export const stdev = (xs: number[]) => {
+  const m = mean(xs)
+  return Math.sqrt(mean(xs.map(v => (v - m) ** 2)))
+}
+
+export const cv = (xs: number[]) => {
+  const m = mean(xs)
+  return m ? stdev(xs) / m : 0
+}
+
+export const fmt = (n: number, digits = 2) => Number.isFinite(n) ? n.toFixed(digits) : "n/a"
+
+export const median = (xs: number[]) => {
+  if (!xs.length) return 0
+  const sorted = [...xs].sort((a, b) => a - b)
+  const mid = sorted.length >> 1
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
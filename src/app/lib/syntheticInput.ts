@@ -0,0 +1,63 @@
+import type { InputRecord } from "./inputCollector"
+import { gradedSignal, type SignalResult } from "./signals"
+import { SIGNAL_WEIGHTS } from "./weights"
+
+// Pages and widgets dispatch the odd event themselves (el.click(), a synthetic
+// resize), so a lone untrusted event only counts when it makes up the input.
+const MIN_UNTRUSTED = 2
+
+function countBy(items: InputRecord[]): string {
+  const counts = new Map<string, number>()
+  items.forEach(i => counts.set(i.type, (counts.get(i.type) ?? 0) + 1))
+  return [...counts].map(([k, v]) => `${k}:${v}`).join(",")
+}
+
+export function analyzeSyntheticInput(
+  events: InputRecord[],
+  maxTouchPoints = typeof navigator !== "undefined" ? navigator.maxTouchPoints ?? 0 : 0
+): SignalResult[] {
+  const untrusted = events.filter(e => !e.trusted)
+  const trusted = events.filter(e => e.trusted)
+  const untrustedShare = events.length ? untrusted.length / events.length : 0
+  const dispatched = Math.max(untrustedShare, untrusted.length >= MIN_UNTRUSTED ? untrusted.length / (2 * MIN_UNTRUSTED) : 0)
+
+  // A pressed mouse button reports pressure 0.5 on hardware without pressure
+  // support, and 0 when released; anything else never came from a real device.
+  const pointers = trusted.filter(e => e.pointerType !== undefined)
+  const badFields = pointers.filter(e =>
+    e.pointerType === "" ||
+    (e.pointerType === "mouse" && (e.buttons ?? 0) > 0 && e.pressure === 0) ||
+    (e.pointerType === "mouse" && e.buttons === 0 && (e.pressure ?? 0) > 0) ||
+    (e.pointerType === "touch" && (e.width === 0 || e.height === 0)) ||
+    e.coalesced === 0
+  )
+
+  // movementX/Y follow the physical device; events injected below the OS
+  // input stack leave them at zero while clientX/Y jump.
+  const moves = trusted.filter(e => e.type === "pointermove" && e.pointerType === "mouse")
+  let moved = 0
+  let frozen = 0
+  for (let i = 1; i < moves.length; i++) {
+    const dx = (moves[i].x ?? 0) - (moves[i - 1].x ?? 0)
+    const dy = (moves[i].y ?? 0) - (moves[i - 1].y ?? 0)
+    if (Math.abs(dx) + Math.abs(dy) < 3) continue
+    moved++
+    if (!moves[i].movementX && !moves[i].movementY) frozen++
+  }
+
+  const touches = trusted.filter(e => e.type === "touchstart")
+  const touchPointers = trusted.filter(e => e.type === "pointerdown" && e.pointerType === "touch")
+  const orphanTouches = touches.filter(t => !touchPointers.some(p => Math.abs(p.t - t.t) < 50))
+  const impossibleTouch = maxTouchPoints === 0 && (touches.length > 0 || touchPointers.length > 0)
+
+  return [
+    gradedSignal("synthetic-untrusted", "Script-dispatched input events", dispatched, 0.5, SIGNAL_WEIGHTS["synthetic-untrusted"],
+      untrusted.length ? `untrusted=${countBy(untrusted)} of ${events.length}` : `events=${events.length}`),
+    gradedSignal("synthetic-pointer-fields", "Pointer events with impossible field values", pointers.length >= 5 ? badFields.length / pointers.length : 0, 0.3, SIGNAL_WEIGHTS["synthetic-pointer-fields"],
+      `bad=${badFields.length}/${pointers.length}${badFields.length ? `, e.g. type=${badFields[0].type} pointerType=${badFields[0].pointerType || "''"} pressure=${badFields[0].pressure} buttons=${badFields[0].buttons}` : ""}`),
+    gradedSignal("synthetic-movement", "movementX/Y do not follow pointer position", moved >= 5 ? frozen / moved : 0, 0.8, SIGNAL_WEIGHTS["synthetic-movement"],
+      `frozen=${frozen}/${moved}${moved >= 5 ? "" : " (insufficient data, need 5)"}`),
+    gradedSignal("synthetic-touch", "Touch and pointer events disagree", impossibleTouch ? 1 : touches.length ? orphanTouches.length / touches.length : 0, 0.5, SIGNAL_WEIGHTS["synthetic-touch"],
+      `touchstart=${touches.length}, touch pointerdown=${touchPointers.length}, orphaned=${orphanTouches.length}, maxTouchPoints=${maxTouchPoints}`),
+  ]
+}
@@ -0,0 +1,259 @@
+// Rendering and timer side channels: how often animation frames arrive, how finely
+// performance.now() ticks, whether timers are throttled, and whether input arrives
+// while the page is hidden or unfocused. Thresholds depend on the claimed platform,
+// since phones drop to 30 fps and stretch timers in low-power mode.
+
+import type { ClaimedPlatform } from "./coherence"
+import { getInputCollector, type InputCollector, type InputRecord } from "./inputCollector"
+import { gradedSignal, type SignalResult } from "./signals"
+import { cv, fmt, median } from "./stats"
+import { SIGNAL_WEIGHTS } from "./weights"
+
+export type FrameFacts = {
+  // Intervals between consecutive requestAnimationFrame timestamps, in ms.
+  intervals: number[]
+  // rAF pauses in hidden tabs, so a hidden sample says nothing.
+  visible: boolean
+}
+
+export type ClockFacts = {
+  // Smallest non-zero step between consecutive performance.now() reads, in ms.
+  resolution: number | null
+  samples: number
+}
+
+export type TimerFacts = {
+  requestedMs: number
+  actualMs: number
+  visible: boolean
+}
+
+export type AttentionFacts = {
+  // Periodic samples of visibilityState and hasFocus() since tracking started.
+  samples: number
+  hidden: number
+  unfocused: number
+  // Trusted pointerdown/keydown events and the ones that arrived while hidden or unfocused.
+  presses: number
+  pressesWhileHidden: number
+  keys: number
+  keysWhileUnfocused: number
+}
+
+export const FRAME_SAMPLES = 30
+export const FRAME_TIMEOUT_MS = 1000
+// A few short bursts of reads, one per animation frame, instead of one long spin.
+// Each burst ends at the first tick; the read cap (a millisecond or two of reads)
+// bounds it when the clock is coarser than that.
+const CLOCK_BURSTS = 8
+const CLOCK_BURST_READS = 50_000
+const TIMER_REQUEST_MS = 20
+const ATTENTION_INTERVAL_MS = 1000
+
+const REFRESH_RATES_HZ = [30, 48, 50, 60, 72, 75, 90, 100, 120, 144, 165, 240]
+const RATE_TOLERANCE = 0.06
+// Frame-interval CV above which cadence counts as erratic. Phones vary their refresh
+// rate and throttle under load, so they get more room.
+const JITTER_LIMIT = { desktop: 0.25, tablet: 0.4, phone: 0.4 }
+// A timer this late was throttled, not just delayed by a busy main thread.
+const THROTTLED_MS = 500
+const LATE_MS = { desktop: 100, tablet: 250, phone: 250 }
+// No shipping browser exposes performance.now() finer than 5µs.
+const MIN_BROWSER_RESOLUTION_MS = 0.001
+
+export function sampleFrames(count = FRAME_SAMPLES, timeoutMs = FRAME_TIMEOUT_MS): Promise<FrameFacts> {
+  const visible = typeof document === "undefined" || document.visibilityState === "visible"
+  if (typeof requestAnimationFrame === "undefined") return Promise.resolve({ intervals: [], visible })
+  return new Promise(resolve => {
+    const stamps: number[] = []
+    let handle = 0
+    const done = () => {
+      clearTimeout(timer)
+      cancelAnimationFrame(handle)
+      resolve({ intervals: stamps.slice(1).map((t, i) => +(t - stamps[i]).toFixed(3)), visible })
+    }
+    const timer = setTimeout(done, timeoutMs)
+    const tick = (t: number) => {
+      stamps.push(t)
+      if (stamps.length > count) done()
+      else handle = requestAnimationFrame(tick)
+    }
+    handle = requestAnimationFrame(tick)
+  })
+}
+
+export function measureClock(bursts = CLOCK_BURSTS, timeoutMs = FRAME_TIMEOUT_MS): Promise<ClockFacts> {
+  let resolution = Infinity
+  let samples = 0
+  let prev = performance.now()
+  // Steps are taken between every pair of consecutive reads, across frames too, so a
+  // clock coarser than a burst (Tor's 100ms) still shows its step between frames.
+  const read = () => {
+    const now = performance.now()
+    samples++
+    if (now > prev) resolution = Math.min(resolution, now - prev)
+    prev = now
+    return now
+  }
+  const burst = () => {
+    const start = read()
+    for (let i = 0; i < CLOCK_BURST_READS && read() === start; i++);
+  }
+  const facts = (): ClockFacts => ({ resolution: Number.isFinite(resolution) ? +resolution.toFixed(6) : null, samples })
+  // rAF pauses in hidden tabs; timers still run there, throttled.
+  const useFrames = typeof requestAnimationFrame !== "undefined" && (typeof document === "undefined" || document.visibilityState === "visible")
+  return new Promise(resolve => {
+    let left = bursts
+    let handle: ReturnType<typeof setTimeout> | number = 0
+    const done = () => {
+      clearTimeout(timer)
+      if (useFrames) cancelAnimationFrame(handle as number)
+      else clearTimeout(handle)
+      resolve(facts())
+    }
+    const timer = setTimeout(done, timeoutMs)
+    const tick = () => {
+      burst()
+      if (--left <= 0) done()
+      else schedule()
+    }
+    const schedule = () => { handle = useFrames ? requestAnimationFrame(tick) : setTimeout(tick, 0) }
+    schedule()
+  })
+}
+
+export async function measureTimers(requestedMs = TIMER_REQUEST_MS): Promise<TimerFacts> {
+  const visible = typeof document === "undefined" || document.visibilityState === "visible"
+  const start = performance.now()
+  await new Promise(r => setTimeout(r, requestedMs))
+  return { requestedMs, actualMs: +(performance.now() - start).toFixed(1), visible }
+}
+
+export function analyzeFrames(facts: FrameFacts, claim: ClaimedPlatform): SignalResult {
+  const name = "Animation frames arrive at an odd or synthetic rate"
+  const { intervals, visible } = facts
+  if (!visible) return gradedSignal("raf-cadence", name, 0, 0.5, SIGNAL_WEIGHTS["raf-cadence"], "document hidden, frames paused")
+  if (intervals.length < 10) {
+    return gradedSignal("raf-cadence", name, intervals.length ? 0 : 0.6, 0.5, SIGNAL_WEIGHTS["raf-cadence"], `frames=${intervals.length} while visible`)
+  }
+
+  const mid = median(intervals)
+  // Dropped frames are normal; cadence is judged on the frames that were not dropped.
+  const steady = intervals.filter(i => i < mid * 1.5)
+  const jitter = cv(steady)
+  const rate = mid > 0 ? 1000 / mid : 0
+  const nearest = REFRESH_RATES_HZ.reduce((a, b) => Math.abs(b - rate) < Math.abs(a - rate) ? b : a)
+  const odd = Math.abs(rate - nearest) / nearest > RATE_TOLERANCE
+  // Vsync-aligned timestamps still wobble by the clock's resolution; identical
+  // intervals come from virtual time or scripted begin-frames.
+  const identical = steady.length >= 20 && jitter < 1e-4
+  const erratic = jitter > JITTER_LIMIT[claim.deviceClass]
+
+  const severity = identical ? 1 : Math.max(odd ? 0.6 : 0, erratic ? 0.6 : 0)
+  return gradedSignal("raf-cadence", name, severity, 0.5, SIGNAL_WEIGHTS["raf-cadence"],
+    `rate≈${fmt(rate, 1)}Hz (nearest ${nearest}), cv=${fmt(jitter, 4)}, frames=${intervals.length}, dropped=${intervals.length - steady.length}`)
+}
+
+export function analyzeClock(facts: ClockFacts, claim: ClaimedPlatform): SignalResult {
+  const name = "performance.now() resolution does not match the browser"
+  const { resolution } = facts
+  if (resolution === null) return gradedSignal("clock-resolution", name, 0.6, 0.5, SIGNAL_WEIGHTS["clock-resolution"], `clock never advanced in ${facts.samples} reads`)
+  // Every iOS browser is WebKit, whatever its User-Agent says.
+  const chromium = (claim.browser === "chrome" || claim.browser === "edge") && claim.os !== "ios"
+  const severity = resolution < MIN_BROWSER_RESOLUTION_MS ? 1
+    // Chromium coarsens to 5µs or 100µs, never to a millisecond; a millisecond clock
+    // behind a Chrome UA is a Date.now() shim or another engine.
+    : chromium && resolution >= 1 ? 0.6
+    // Firefox and Tor's resistFingerprinting round to 16.7ms or 100ms, a privacy
+    // setting, so a coarse clock elsewhere is noted but not flagged on its own.
+    : resolution >= 16 && claim.browser !== "firefox" ? 0.3
+    : 0
+  return gradedSignal("clock-resolution", name, severity, 0.5, SIGNAL_WEIGHTS["clock-resolution"],
+    `resolution=${resolution}ms, reads=${facts.samples}, browser=${claim.browser} on ${claim.os}`)
+}
+
+export function analyzeTimers(facts: TimerFacts, claim: ClaimedPlatform): SignalResult {
+  const late = facts.actualMs - facts.requestedMs
+  const throttled = late > THROTTLED_MS
+  const details = `setTimeout(${facts.requestedMs}) took ${fmt(facts.actualMs, 1)}ms, ${facts.visible ? "visible" : "hidden"}`
+  // Background tabs are throttled by design; a "visible" page that is throttled is
+  // either lying about its visibility or running in a hidden window.
+  const severity = !facts.visible ? 0
+    : throttled ? 1
+    : late > LATE_MS[claim.deviceClass] ? 0.3
+    : 0
+  return gradedSignal("timer-throttle", "Timers throttled while the page reports it is visible", severity, 0.5, SIGNAL_WEIGHTS["timer-throttle"],
+    throttled && !facts.visible ? `${details} (background throttling)` : details)
+}
+
+export function analyzeAttention(facts: AttentionFacts): SignalResult {
+  const { samples, hidden, unfocused, presses, pressesWhileHidden, keys, keysWhileUnfocused } = facts
+  // Nobody clicks or types into a hidden tab, and keys only reach the focused window;
+  // protocol-dispatched input reaches either. A page clicked several times without
+  // ever gaining focus is the weaker form of the same thing.
+  const severity = pressesWhileHidden > 0 ? 1
+    : keys >= 3 && keysWhileUnfocused / keys >= 0.5 ? 0.8
+    : presses >= 3 && samples >= 5 && unfocused === samples ? 0.6
+    : 0
+  return gradedSignal("visibility", "Input arrives while the page is hidden or unfocused", severity, 0.5, SIGNAL_WEIGHTS.visibility,
+    `hidden=${hidden}/${samples}, unfocused=${unfocused}/${samples}, presses=${presses} (${pressesWhileHidden} hidden), keys=${keys} (${keysWhileUnfocused} unfocused)`)
+}
+
+// Follows visibilityState and hasFocus() for the whole session and checks every
+// trusted press against them as it arrives. Reports through `onChange` whenever the
+// signal's severity changes.
+export class AttentionTracker {
+  private facts: AttentionFacts = { samples: 0, hidden: 0, unfocused: 0, presses: 0, pressesWhileHidden: 0, keys: 0, keysWhileUnfocused: 0 }
+  private timer: ReturnType<typeof setInterval> | null = null
+  private unsubscribe: (() => void) | null = null
+  private severity = 0
+
+  constructor(private onChange: (result: SignalResult) => void, private collector: InputCollector = getInputCollector(), private intervalMs = ATTENTION_INTERVAL_MS) {}
+
+  start(signal?: AbortSignal): this {
+    if (this.timer || signal?.aborted || typeof document === "undefined") return this
+    this.sample()
+    this.timer = setInterval(() => this.sample(), this.intervalMs)
+    this.unsubscribe = this.collector.subscribe(r => this.press(r))
+    signal?.addEventListener("abort", () => this.stop(), { once: true })
+    return this
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.unsubscribe?.()
+    this.timer = null
+    this.unsubscribe = null
+  }
+
+  snapshot(): AttentionFacts {
+    return { ...this.facts }
+  }
+
+  private sample(): void {
+    this.facts.samples++
+    if (document.visibilityState !== "visible") this.facts.hidden++
+    if (!document.hasFocus()) this.facts.unfocused++
+    this.report()
+  }
+
+  private press(r: InputRecord): void {
+    if (!r.trusted || (r.type !== "pointerdown" && r.type !== "keydown")) return
+    const hidden = document.visibilityState !== "visible"
+    if (r.type === "pointerdown") {
+      this.facts.presses++
+      if (hidden) this.facts.pressesWhileHidden++
+    } else {
+      this.facts.keys++
+      if (hidden || !document.hasFocus()) this.facts.keysWhileUnfocused++
+    }
+    this.report()
+  }
+
+  private report(): void {
+    const result = analyzeAttention(this.facts)
+    if ((result.severity ?? 0) === this.severity) return
+    this.severity = result.severity ?? 0
+    this.onChange(result)
+  }
+}
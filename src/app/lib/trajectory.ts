@@ -0,0 +1,187 @@
+import type { InputRecord } from "./inputCollector"
+import { gradedSignal, type SignalResult } from "./signals"
+import { cv, fmt, mean } from "./stats"
+import { SIGNAL_WEIGHTS } from "./weights"
+
+export type PointerSample = {
+  t: number
+  x: number
+  y: number
+  kind: "move" | "down"
+  pointerType?: string
+  targetSize?: number
+}
+
+export type StrokeMetrics = {
+  samples: number
+  duration: number
+  pathLength: number
+  aimDistance: number
+  straightness: number
+  meanCurvature: number
+  meanJerk: number
+  velocityCV: number
+  peakVelocityAt: number
+  stepCV: number
+  corrected: boolean
+  endsInClick: boolean
+  targetSize?: number
+}
+
+const STROKE_GAP_MS = 60
+const BURST_GAP_MS = 5
+const TELEPORT_PX = 200
+const DEFAULT_TARGET_PX = 40
+
+export function toPointerSamples(records: InputRecord[]): PointerSample[] {
+  return records
+    .filter(r => r.trusted && (r.type === "pointermove" || r.type === "pointerdown") && r.x !== undefined && r.y !== undefined)
+    .map(r => ({ t: r.t, x: r.x!, y: r.y!, kind: r.type === "pointerdown" ? "down" : "move", pointerType: r.pointerType, targetSize: r.targetSize }))
+}
+
+const dist = (a: PointerSample, b: PointerSample) => Math.hypot(a.x - b.x, a.y - b.y)
+
+// A stroke ends at a pause, a click, or a jump no hand could make between two events.
+// Each stroke keeps the sample it started from as its anchor.
+export function segmentStrokes(samples: PointerSample[], gapMs = STROKE_GAP_MS): { anchor?: PointerSample, samples: PointerSample[] }[] {
+  const strokes: { anchor?: PointerSample, samples: PointerSample[] }[] = []
+  let current: PointerSample[] = []
+  let anchor: PointerSample | undefined
+  const flush = () => {
+    if (current.length) strokes.push({ anchor, samples: current })
+    anchor = current[current.length - 1] ?? anchor
+    current = []
+  }
+  for (const s of samples) {
+    const prev = current[current.length - 1]
+    if (prev && (s.t - prev.t > gapMs || dist(s, prev) > TELEPORT_PX)) flush()
+    current.push(s)
+    if (s.kind === "down") flush()
+  }
+  flush()
+  return strokes
+}
+
+export function strokeMetrics(samples: PointerSample[], anchor?: PointerSample): StrokeMetrics {
+  const steps: number[] = []
+  const intervals: number[] = []
+  const velocities: number[] = []
+  const turns: number[] = []
+  for (let i = 1; i < samples.length; i++) {
+    const d = dist(samples[i], samples[i - 1])
+    const dt = samples[i].t - samples[i - 1].t
+    steps.push(d)
+    intervals.push(dt)
+    velocities.push(d / Math.max(dt, 1))
+    if (i >= 2 && d > 0) {
+      const a1 = Math.atan2(samples[i - 1].y - samples[i - 2].y, samples[i - 1].x - samples[i - 2].x)
+      const a2 = Math.atan2(samples[i].y - samples[i - 1].y, samples[i].x - samples[i - 1].x)
+      const turn = Math.abs(Math.atan2(Math.sin(a2 - a1), Math.cos(a2 - a1)))
+      turns.push(turn / d)
+    }
+  }
+  const accel = velocities.slice(1).map((v, i) => (v - velocities[i]) / Math.max(intervals[i + 1], 1))
+  const jerk = accel.slice(1).map((a, i) => Math.abs(a - accel[i]) / Math.max(intervals[i + 2], 1))
+
+  const first = samples[0]
+  const last = samples[samples.length - 1]
+  const pathLength = steps.reduce((a, b) => a + b, 0)
+  const chord = dist(first, last)
+
+  // Humans overshoot and correct: the remaining distance to the endpoint grows again
+  // at some point, or the path passes beyond the endpoint.
+  const remaining = samples.map(s => dist(s, last))
+  let corrected = samples.some(s => dist(s, first) > chord + 2)
+  for (let i = 1; i < remaining.length && !corrected; i++) {
+    if (remaining[i] > remaining[i - 1] + 2) corrected = true
+  }
+
+  const peak = velocities.indexOf(Math.max(...velocities))
+  return {
+    samples: samples.length,
+    duration: last.t - first.t,
+    pathLength,
+    aimDistance: anchor ? dist(anchor, last) : chord,
+    straightness: pathLength > 0 ? chord / pathLength : 1,
+    meanCurvature: mean(turns),
+    meanJerk: mean(jerk),
+    velocityCV: cv(velocities),
+    peakVelocityAt: velocities.length > 1 ? peak / (velocities.length - 1) : 0,
+    stepCV: cv(steps.filter(d => d > 0)),
+    corrected,
+    endsInClick: last.kind === "down",
+    targetSize: last.targetSize,
+  }
+}
+
+function fittsFit(strokes: StrokeMetrics[]): { slope: number, r2: number, meanMT: number } {
+  const xs = strokes.map(s => Math.log2(s.aimDistance / (s.targetSize ?? DEFAULT_TARGET_PX) + 1))
+  const ys = strokes.map(s => s.duration)
+  const mx = mean(xs)
+  const my = mean(ys)
+  const sxy = xs.reduce((a, x, i) => a + (x - mx) * (ys[i] - my), 0)
+  const sxx = xs.reduce((a, x) => a + (x - mx) ** 2, 0)
+  const syy = ys.reduce((a, y) => a + (y - my) ** 2, 0)
+  const slope = sxx ? sxy / sxx : 0
+  const r2 = sxx && syy ? (sxy * sxy) / (sxx * syy) : 0
+  return { slope, r2, meanMT: my }
+}
+
+export function analyzeTrajectory(samples: PointerSample[]): SignalResult[] {
+  const strokes = segmentStrokes(samples).map(s => strokeMetrics(s.samples, s.anchor))
+
+  // Only a mouse moving without a pause has to pass through the space in between;
+  // touch taps, pen hovers and a pointer re-entering the window land anywhere.
+  let jumps = 0
+  for (let i = 1; i < samples.length; i++) {
+    const [prev, s] = [samples[i - 1], samples[i]]
+    const moving = s.kind === "move" && s.pointerType === "mouse" && s.t - prev.t <= STROKE_GAP_MS
+    if (moving && dist(s, prev) > TELEPORT_PX) jumps++
+  }
+
+  // Real pointer events are frame- or poll-aligned; several evenly spaced moves within
+  // a few milliseconds of each other come from a scripted `steps` interpolation.
+  const bursts = segmentStrokes(samples, BURST_GAP_MS).map(b => strokeMetrics(b.samples)).filter(b => b.samples >= 3)
+  const interpolated = bursts.filter(b => b.stepCV < 0.05)
+  const interpolatedShare = samples.length >= 10 ? interpolated.reduce((a, b) => a + b.samples, 0) / samples.length : 0
+
+  const long = strokes.filter(s => s.samples >= 5)
+  const uniform = long.filter(s => s.stepCV < 0.05)
+
+  const timed = strokes.filter(s => s.samples >= 6 && s.duration >= 100)
+  const flat = timed.filter(s => s.velocityCV < 0.25)
+
+  const travelled = strokes.filter(s => s.samples >= 3 && s.pathLength >= 50)
+  const straight = travelled.filter(s => s.straightness > 0.995)
+
+  const aimed = strokes.filter(s => s.samples >= 8 && s.pathLength >= 100)
+  const corrected = aimed.filter(s => s.corrected)
+
+  const clicks = strokes.filter(s => s.endsInClick && s.aimDistance >= 20)
+  const fitts = fittsFit(clicks)
+
+  const ratio = (hit: StrokeMetrics[], of: StrokeMetrics[], min: number) => of.length >= min ? hit.length / of.length : 0
+  const tooFew = (of: StrokeMetrics[], min: number) => of.length < min ? ` (insufficient data, need ${min})` : ""
+  const fittsSeverity = clicks.length < 5 ? 0
+    : fitts.meanMT < 30 ? 1
+    : fitts.slope <= 0 ? 0.8
+    : fitts.r2 < 0.1 ? 0.6
+    : 0
+
+  return [
+    gradedSignal("traj-teleport", "Pointer jumps without intermediate movement", jumps / 3, 0.6, SIGNAL_WEIGHTS["traj-teleport"],
+      `jumps=${jumps}, samples=${samples.length}`),
+    gradedSignal("traj-interpolation", "Pointer moves arrive as interpolated bursts", interpolatedShare, 0.4, SIGNAL_WEIGHTS["traj-interpolation"],
+      `bursts=${interpolated.length}, share=${fmt(interpolatedShare)}, samples=${samples.length}`),
+    gradedSignal("traj-uniform-steps", "Pointer moves in evenly spaced steps", ratio(uniform, long, 2), 0.5, SIGNAL_WEIGHTS["traj-uniform-steps"],
+      `uniform=${uniform.length}/${long.length}, stepCV≈${fmt(mean(long.map(s => s.stepCV)))}${tooFew(long, 2)}`),
+    gradedSignal("traj-velocity-profile", "No acceleration or deceleration in strokes", ratio(flat, timed, 2), 0.5, SIGNAL_WEIGHTS["traj-velocity-profile"],
+      `flat=${flat.length}/${timed.length}, velocityCV≈${fmt(mean(timed.map(s => s.velocityCV)))}, peakAt≈${fmt(mean(timed.map(s => s.peakVelocityAt)))}, jerk≈${fmt(mean(timed.map(s => s.meanJerk)), 5)}${tooFew(timed, 2)}`),
+    gradedSignal("traj-straightness", "Pointer paths are perfectly straight", ratio(straight, travelled, 3), 0.7, SIGNAL_WEIGHTS["traj-straightness"],
+      `straight=${straight.length}/${travelled.length}, curvature≈${fmt(mean(travelled.map(s => s.meanCurvature)), 4)}rad/px${tooFew(travelled, 3)}`),
+    gradedSignal("traj-no-correction", "No overshoot or corrective movements", aimed.length >= 3 ? 1 - corrected.length / aimed.length : 0, 0.9, SIGNAL_WEIGHTS["traj-no-correction"],
+      `corrected=${corrected.length}/${aimed.length}${tooFew(aimed, 3)}`),
+    gradedSignal("traj-fitts", "Movement time ignores target distance (Fitts' law)", fittsSeverity, 0.5, SIGNAL_WEIGHTS["traj-fitts"],
+      `n=${clicks.length}, slope=${fmt(fitts.slope)}ms/bit, r2=${fmt(fitts.r2)}, meanMT=${fmt(fitts.meanMT, 0)}ms${tooFew(clicks, 5)}`),
+  ]
+}
@@ -0,0 +1,135 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { type SignalResult, type Summary } from "./botDetector"
+import { applyBaseline, type ClaimedPlatform } from "./coherence"
+import type { DetectorConfig } from "./detectorRegistry"
+import { summarize } from "./scoring"
+import { baseSignalId, decayFactor, MAX_SIGNALS, MIN_DECAY } from "./signals"
+import { SIGNAL_WEIGHTS } from "./weights"
+
+export { baseSignalId } from "./signals"
+
+export type VerdictClaims = {
+  level: Summary["level"]
+  score: number
+  max: number
+  probability: number
+  iat: number
+  exp: number
+  uah?: string
+}
+
+export type VerdictResponse = {
+  token: string
+  summary: Summary
+  results: SignalResult[]
+  expiresAt: number
+}
+
+const TOKEN_TTL_MS = 2 * 60 * 1000
+const MAX_DETAILS = 500
+
+// The server owns the weights; whatever the client sent as `weight` is ignored.
+const SERVER_WEIGHTS: Record<string, number> = SIGNAL_WEIGHTS
+
+// Static detections always run, so a payload without them has been edited.
+const REQUIRED_IDS = [
+  "webdriver", "ua-headless", "automation-globals", "plugins", "languages", "webgl", "nav-lies", "automation-bindings",
+]
+
+let devSecret: Buffer | undefined
+
+export function secret(): Buffer {
+  const configured = process.env.VERDICT_SECRET
+  if (configured) return Buffer.from(configured)
+  if (process.env.NODE_ENV === "production") throw new Error("VERDICT_SECRET is not set")
+  devSecret ??= randomBytes(32)
+  return devSecret
+}
+
+const b64url = (buf: Buffer | string) => Buffer.from(buf).toString("base64url")
+const hmac = (data: string) => createHmac("sha256", secret()).update(data).digest()
+const uaHash = (ua: string) => createHash("sha256").update(ua).digest("base64url").slice(0, 16)
+
+export function parseSignals(body: unknown): SignalResult[] | null {
+  const list = (body as { results?: unknown })?.results
+  if (!Array.isArray(list) || list.length > MAX_SIGNALS) return null
+  const parsed: SignalResult[] = []
+  for (const item of list) {
+    const s = item as Partial<SignalResult>
+    if (typeof s?.id !== "string" || typeof s.suspicious !== "boolean") return null
+    parsed.push({
+      id: s.id,
+      name: typeof s.name === "string" ? s.name : s.id,
+      suspicious: s.suspicious,
+      weight: 0,
+      details: typeof s.details === "string" ? s.details.slice(0, MAX_DETAILS) : undefined,
+      severity: typeof s.severity === "number" && Number.isFinite(s.severity) ? Math.max(0, Math.min(1, s.severity)) : undefined,
+      age: typeof s.age === "number" && Number.isFinite(s.age) && s.age >= 0 ? s.age : undefined,
+    })
+  }
+  return parsed
+}
+
+export function rescore(
+  client: SignalResult[],
+  server: SignalResult[] = [],
+  config: DetectorConfig = {},
+  claim?: ClaimedPlatform
+): { results: SignalResult[], summary: Summary } {
+  const overrides = config.detectors ?? {}
+  const weightFor = (id: string) => overrides[id]?.enabled === false ? undefined : overrides[id]?.weight ?? SERVER_WEIGHTS[id]
+  const seen = new Set<string>()
+  const results: SignalResult[] = []
+  // Header and challenge signals are only trusted when computed here, never as reported by the client.
+  for (const s of [...client.filter(c => !c.id.startsWith("hdr-") && c.id !== "challenge"), ...server]) {
+    const weight = weightFor(baseSignalId(s.id))
+    if (weight === undefined || seen.has(s.id)) continue
+    seen.add(s.id)
+    // Probe evidence fades on the page's half-life, so the signed level follows the
+    // one the page shows instead of holding every old probe at full weight.
+    const factor = decayFactor(s.age)
+    if (factor < MIN_DECAY) continue
+    results.push({ ...s, weight: s.age === undefined ? weight : +(weight * factor).toFixed(2) })
+  }
+  const present = new Set(results.map(s => baseSignalId(s.id)))
+  for (const id of REQUIRED_IDS) {
+    const weight = weightFor(id)
+    if (!present.has(id) && weight !== undefined) {
+      results.push({ id, name: `Missing ${id} signal`, suspicious: true, weight, details: "signal omitted from payload" })
+    }
+  }
+  // Scored with the served model only, never with whatever the page configured. The
+  // platform baseline is the one the page applied, claimed from the request's headers.
+  const scored = claim ? applyBaseline(results, claim) : results
+  return { results: scored, summary: summarize(scored, config.scoring ?? {}) }
+}
+
+export function signVerdict(summary: Summary, userAgent?: string, now = Date.now()): { token: string, expiresAt: number } {
+  const claims: VerdictClaims = {
+    level: summary.level,
+    score: summary.score,
+    max: summary.max,
+    probability: summary.probability,
+    iat: now,
+    exp: now + TOKEN_TTL_MS,
+    uah: userAgent ? uaHash(userAgent) : undefined,
+  }
+  const payload = `v1.${b64url(JSON.stringify(claims))}`
+  return { token: `${payload}.${b64url(hmac(payload))}`, expiresAt: claims.exp }
+}
+
+export function verifyVerdict(token: string, userAgent?: string, now = Date.now()): VerdictClaims | null {
+  const [version, body, sig] = token.split(".")
+  if (version !== "v1" || !body || !sig) return null
+  const expected = hmac(`${version}.${body}`)
+  const given = Buffer.from(sig, "base64url")
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null
+  try {
+    const claims = JSON.parse(Buffer.from(body, "base64url").toString()) as VerdictClaims
+    if (typeof claims.exp !== "number" || claims.exp < now) return null
+    if (claims.uah && userAgent !== undefined && claims.uah !== uaHash(userAgent)) return null
+    return claims
+  } catch {
+    return null
+  }
+}
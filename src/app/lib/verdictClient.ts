@@ -0,0 +1,135 @@
+import type { SignalResult } from "./botDetector"
+import { MAX_SIGNALS } from "./signals"
+import type { ChallengeKind, ChallengeOutcome, ChallengeSolution, IssuedChallenge } from "./challenge"
+import { parseDetectorConfig, type DetectorConfig } from "./detectorRegistry"
+import type { EnvelopeError, EnvelopePayload, SealedEnvelope, Session } from "./session"
+import type { VerdictResponse } from "./verdict"
+
+type OpenSession = {
+  nonce: string
+  key: CryptoKey
+  openedAt: number
+  expiresAt: number
+  seq: number
+}
+
+// One session per API origin. The key stays in this module; nothing readable is
+// left on `window` for another script to edit.
+const sessions = new Map<string, Promise<OpenSession | null>>()
+
+// Only a session the server no longer accepts is worth renewing. Anything else would
+// fail the same way in a new session and lose this one's challenge outcome.
+const RENEWABLE = new Set<string | undefined>(["bad-nonce", "expired"] satisfies EnvelopeError[])
+
+const clientFacts = () => ({ userAgent: navigator.userAgent, languages: [...(navigator.languages ?? [])], maxTouchPoints: navigator.maxTouchPoints ?? 0 })
+
+async function send<T>(url: string, body: unknown): Promise<{ data: T | null, error?: string }> {
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    const json = await res.json().catch(() => null)
+    return res.ok ? { data: json as T | null } : { data: null, error: json?.error }
+  } catch {
+    return { data: null }
+  }
+}
+
+async function post<T>(url: string, body: unknown): Promise<T | null> {
+  return (await send<T>(url, body)).data
+}
+
+const b64url = (buf: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buf))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+const fromB64url = (s: string) => Uint8Array.from(atob(s.replace(/-/g, "+").replace(/_/g, "/")), c => c.charCodeAt(0))
+
+async function openSession(base: string): Promise<OpenSession | null> {
+  const session = await post<Session>(`${base}/api/session`, {})
+  if (!session) return null
+  const key = await crypto.subtle.importKey("raw", fromB64url(session.key), { name: "HMAC", hash: "SHA-256" }, false, ["sign"])
+  return { nonce: session.nonce, key, openedAt: performance.now(), expiresAt: session.expiresAt, seq: 0 }
+}
+
+// Concurrent callers share one pending open. A failed open is tried once more and
+// then forgotten, so the next caller starts over instead of getting a cached null.
+async function currentSession(base: string, renew = false): Promise<OpenSession | null> {
+  const pending = renew ? undefined : sessions.get(base)
+  const existing = pending && await pending
+  if (existing && existing.expiresAt > Date.now()) return existing
+  // Joined an open that failed even after its retry.
+  if (pending && !existing) return null
+  const attempt = () => openSession(base).catch(() => null)
+  const next = attempt()
+    .then(session => session ?? attempt())
+    .then(session => {
+      if (!session && sessions.get(base) === next) sessions.delete(base)
+      return session
+    })
+  sessions.set(base, next)
+  return next
+}
+
+// A long session with many probes can outgrow the server's limit; the oldest decaying
+// evidence is left out first, and evidence that does not decay is always sent.
+function newestSignals(results: SignalResult[]): SignalResult[] {
+  if (results.length <= MAX_SIGNALS) return results
+  const fading = results.filter(r => r.age !== undefined).sort((a, b) => a.age! - b.age!)
+  return [...results.filter(r => r.age === undefined), ...fading].slice(0, MAX_SIGNALS)
+}
+
+async function seal(session: OpenSession, results: SignalResult[]): Promise<SealedEnvelope> {
+  const payload: EnvelopePayload = {
+    nonce: session.nonce,
+    seq: ++session.seq,
+    sealedAt: Date.now(),
+    elapsedMs: Math.round(performance.now() - session.openedAt),
+    client: clientFacts(),
+    results: newestSignals(results).map(({ id, name, suspicious, details, severity, age }) => ({ id, name, suspicious, details, severity, age })),
+  }
+  const text = JSON.stringify(payload)
+  const mac = await crypto.subtle.sign("HMAC", session.key, new TextEncoder().encode(text))
+  return { payload: text, mac: b64url(mac) }
+}
+
+// `base` is the origin serving the API routes; empty means same-origin. Results are
+// sealed with the session key; an expired or unknown session is renewed once.
+export async function requestVerdict(results: SignalResult[], base = ""): Promise<VerdictResponse | null> {
+  for (const renew of [false, true]) {
+    const session = await currentSession(base, renew)
+    if (!session) return null
+    const { data: verdict, error } = await send<VerdictResponse>(`${base}/api/verdict`, await seal(session, results))
+    if (verdict) return verdict
+    if (!RENEWABLE.has(error)) return null
+  }
+  return null
+}
+
+// Challenges belong to the current session; their outcome is applied by the server
+// to every verdict requested in it afterwards.
+export async function requestChallenge(kind: ChallengeKind, base = ""): Promise<IssuedChallenge | null> {
+  const session = await currentSession(base)
+  if (!session) return null
+  return post<IssuedChallenge>(`${base}/api/challenge`, { nonce: session.nonce, kind })
+}
+
+// A null solution reports the challenge as skipped.
+export async function verifyChallenge(id: string, solution: ChallengeSolution | null, base = ""): Promise<ChallengeOutcome | null> {
+  const session = await currentSession(base)
+  if (!session) return null
+  return post<ChallengeOutcome>(`${base}/api/challenge/verify`, { nonce: session.nonce, id, solution })
+}
+
+export async function requestHeaderSignals(base = ""): Promise<SignalResult[]> {
+  const res = await post<{ results: SignalResult[] }>(`${base}/api/signals`, { client: clientFacts() })
+  return res?.results ?? []
+}
+
+export async function fetchDetectorConfig(base = ""): Promise<DetectorConfig> {
+  try {
+    const res = await fetch(`${base}/api/detector-config`, { cache: "no-store" })
+    return res.ok ? parseDetectorConfig(await res.json()) : {}
+  } catch {
+    return {}
+  }
+}
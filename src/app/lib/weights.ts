@@ -0,0 +1,66 @@
+// The weight of every signal. The detector registry, the behavioral analyzers and the
+// verdict route's re-scoring all read this one table; per-site changes go in the
+// detector config instead.
+export const SIGNAL_WEIGHTS = {
+  "webdriver": 3,
+  "ua-headless": 2,
+  "automation-globals": 3,
+  "automation-bindings": 3,
+  "cdp-runtime": 0.5,
+  "late-globals": 3,
+  "fn-tamper": 1.5,
+  "nav-lies": 3,
+  "coherence": 2.5,
+  "cross-context": 3,
+  "plugins": 1.5,
+  "languages": 1.5,
+  "webgl": 2.5,
+  "touch": 1.5,
+  "timezone": 1,
+  "screen": 1,
+  "device-specs": 1,
+  "chrome-app": 1,
+  "permissions-api": 1,
+  "webrtc": 1,
+  "media-devices": 1,
+  "perf-drift": 2,
+  "raf-cadence": 1.5,
+  "clock-resolution": 1.5,
+  "timer-throttle": 1.5,
+  "visibility": 2,
+  "canvas-fp": 1.5,
+  "font-probe": 0.5,
+  "audio": 0.5,
+  "fp-changed": 2,
+  "fp-ua-rotation": 2,
+  "challenge": 3,
+  "probe-no-input": 3,
+  "probe-regularity": 1.5,
+  "probe-impossible-speed": 2,
+  "probe-jitter": 1.5,
+  "focus-blur": 0.5,
+  "resize": 0.5,
+  "touch-gestures": 1,
+  "micro-scroll-patterns": 0.5,
+  "micro-hover-duration": 0.5,
+  "traj-teleport": 2,
+  "traj-interpolation": 2,
+  "traj-uniform-steps": 1.5,
+  "traj-velocity-profile": 1,
+  "traj-straightness": 0.8,
+  "traj-no-correction": 0.5,
+  "traj-fitts": 1,
+  "keys-dwell": 1.5,
+  "keys-cadence": 1.5,
+  "keys-rollover": 0.5,
+  "keys-digraph": 1,
+  "synthetic-untrusted": 3,
+  "synthetic-pointer-fields": 2,
+  "synthetic-movement": 2,
+  "synthetic-touch": 2,
+  "hdr-accept-language": 1.5,
+  "hdr-client-hints": 2,
+  "hdr-sec-fetch": 1.5,
+  "hdr-user-agent": 3,
+  "hdr-header-set": 1,
+} satisfies Record<string, number>
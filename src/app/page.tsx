@@ -1,23 +1,31 @@
 "use client"
 
-import { useEffect, useMemo, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { cn } from "../app/lib/utils"
 import {
+  detectorRegistry,
+  LEVEL_LABELS,
   runStaticDetections,
   startActivityProbe,
-  summarize,
   type SignalResult,
   type Summary,
 } from "../app/lib/botDetector"
+import { InstrumentationWatcher, lateInstrumentationSignal } from "../app/lib/instrumentation"
+import { getRiskMonitor, type LevelChange, type RiskUpdate } from "../app/lib/riskMonitor"
+import { isAbortError } from "../app/lib/abort"
+import { isDebugMode } from "../app/lib/debug"
+import { captureSnapshot } from "../app/lib/env"
+import { trackVisit } from "../app/lib/fingerprint"
+import { StepUpChallenge } from "../app/components/challenges"
+import { OverrideOverlay } from "../app/components/override-overlay"
+import { applyOverrideBaseline, loadOverrides, overrideEnv, overridesConfig, type Overrides } from "../app/lib/overrides"
+import { recordActivityProbe, type InputRecording } from "../app/lib/recording"
+import { AttentionTracker } from "../app/lib/timing"
+import { fetchDetectorConfig, requestHeaderSignals, requestVerdict } from "../app/lib/verdictClient"
+import type { VerdictResponse } from "../app/lib/verdict"
 
 function StatusBadge({ summary }: { summary: Summary | null }) {
-  const label = !summary
-    ? "Awaiting"
-    : summary.level === "low"
-      ? "Human"
-      : summary.level === "medium"
-        ? "Suspicious"
-        : "Automated"
+  const label = summary ? LEVEL_LABELS[summary.level] : "Awaiting"
 
   const tone = !summary
     ? "bg-gray-700 text-gray-300"
@@ -27,7 +35,7 @@ function StatusBadge({ summary }: { summary: Summary | null }) {
         ? "bg-yellow-800 text-yellow-200"
         : "bg-red-900 text-red-200"
 
-  const confidence = summary ? Math.round((summary.score / summary.max) * 100) : 0
+  const confidence = summary ? Math.round(summary.probability * 100) : 0
 
   return (
     <div className="flex flex-col items-end">
@@ -86,170 +94,147 @@ function CheckItem({ s }: { s: SignalResult }) {
   )
 }
 
-function useBehavioralSignals() {
-  const [lostFocus, setLostFocus] = useState(false)
-  const [resized, setResized] = useState(false)
-  const [pinchZoom, setPinchZoom] = useState(false)
-
-  useEffect(() => {
-    const onBlur = () => setLostFocus(true)
-    const onResize = () => setResized(true)
-    const onGesture = () => setPinchZoom(true)
-
-    window.addEventListener("blur", onBlur)
-    window.addEventListener("resize", onResize)
-    window.addEventListener("gesturestart", onGesture)
-
-    return () => {
-      window.removeEventListener("blur", onBlur)
-      window.removeEventListener("resize", onResize)
-      window.removeEventListener("gesturestart", onGesture)
-    }
-  }, [])
-
-  return useMemo(
-    () => [
-      { id: "behavioral-focus-blur", name: "Did the user lose focus?", suspicious: lostFocus, weight: 0.5 },
-      { id: "behavioral-resize", name: "User resized window?", suspicious: resized, weight: 0.5 },
-      { id: "behavioral-touch-gestures", name: "User performed touch gestures?", suspicious: pinchZoom, weight: 1 },
-    ],
-    [lostFocus, resized, pinchZoom]
-  )
+function downloadJson(filename: string, data: unknown) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
 }
 
-function useMicroSignals() {
-  const [fastMouse, setFastMouse] = useState(false)
-  const [linearMouse, setLinearMouse] = useState(false)
-  const [fastTyping, setFastTyping] = useState(false)
-  const [scrollPatterns, setScrollPatterns] = useState(false)
-  const [hoverDuration, setHoverDuration] = useState(false)
+function useRiskMonitor() {
+  const monitor = getRiskMonitor({ adjust: applyOverrideBaseline })
+  const [update, setUpdate] = useState<RiskUpdate | null>(null)
+  const [changes, setChanges] = useState<LevelChange[]>([])
 
   useEffect(() => {
-    let lastX = 0
-    let lastY = 0
-    let lastTime = Date.now()
-    let lastKeyTime = Date.now()
-    let lastScrollTime = Date.now()
-    let hoverStart: number | null = null
-
-    const onMouseMove = (e: MouseEvent) => {
-      const now = Date.now()
-      const dx = e.clientX - lastX
-      const dy = e.clientY - lastY
-      const dt = now - lastTime
-
-      const speed = dt > 0 ? Math.sqrt(dx * dx + dy * dy) / dt : 0
-      if (speed > 1) setFastMouse(true)
-
-      const linear = Math.abs(dy / (dx || 1)) < 0.05
-      if (linear) setLinearMouse(true)
-
-      if (dx === 0 && dy === 0 && dt > 1000) setFastMouse(false)
-
-      lastX = e.clientX
-      lastY = e.clientY
-      lastTime = now
-    }
-
-    const onKeyDown = () => {
-      const now = Date.now()
-      if (now - lastKeyTime < 30) setFastTyping(true)
-      lastKeyTime = now
+    const controller = new AbortController()
+    const offUpdate = monitor.onUpdate(setUpdate)
+    const offLevel = monitor.onLevelChange((change) => setChanges((prev) => [change, ...prev].slice(0, 5)))
+    new InstrumentationWatcher((hits) => monitor.observe([lateInstrumentationSignal(hits)], { decay: false })).start(controller.signal)
+    if (!loadOverrides()?.freeze) {
+      monitor.start(controller.signal)
+      new AttentionTracker((result) => monitor.observe([result], { decay: false })).start(controller.signal)
     }
-
-    const onScroll = () => {
-      const now = Date.now()
-      if (now - lastScrollTime < 50) setScrollPatterns(true)
-      lastScrollTime = now
-    }
-
-    const onMouseOver = () => {
-      hoverStart = Date.now()
-    }
-
-    const onMouseOut = () => {
-      if (hoverStart) {
-        const duration = Date.now() - hoverStart
-        if (duration > 2000) setHoverDuration(true)
-        hoverStart = null
-      }
-    }
-
-    window.addEventListener("mousemove", onMouseMove)
-    window.addEventListener("keydown", onKeyDown)
-    window.addEventListener("scroll", onScroll)
-    window.addEventListener("mouseover", onMouseOver)
-    window.addEventListener("mouseout", onMouseOut)
-
     return () => {
-      window.removeEventListener("mousemove", onMouseMove)
-      window.removeEventListener("keydown", onKeyDown)
-      window.removeEventListener("scroll", onScroll)
-      window.removeEventListener("mouseover", onMouseOver)
-      window.removeEventListener("mouseout", onMouseOut)
+      controller.abort()
+      offUpdate()
+      offLevel()
     }
-  }, [])
-
-  return useMemo(
-    () => [
-      { id: "micro-fast-mouse", name: "Mouse moved unnaturally fast?", suspicious: fastMouse, weight: 1 },
-      { id: "micro-linear-mouse", name: "Mouse moved in straight lines?", suspicious: linearMouse, weight: 0.8 },
-      { id: "micro-fast-typing", name: "Typing too fast?", suspicious: fastTyping, weight: 1 },
-      { id: "micro-scroll-patterns", name: "Scroll pattern abnormal?", suspicious: scrollPatterns, weight: 0.5 },
-      { id: "micro-hover-duration", name: "Hovered too long on elements?", suspicious: hoverDuration, weight: 0.5 },
-    ],
-    [fastMouse, linearMouse, fastTyping, scrollPatterns, hoverDuration]
-  )
+  }, [monitor])
+
+  return { monitor, summary: update?.summary ?? null, signals: update?.results ?? [], changes }
 }
 
+const debug = isDebugMode()
+
 export default function Page() {
-  const behavioralSignals = useBehavioralSignals()
-  const microSignals = useMicroSignals()
+  const { monitor, summary, signals: allSignals, changes } = useRiskMonitor()
+  const probeController = useRef<AbortController | null>(null)
 
-  const [staticSignals, setStaticSignals] = useState<SignalResult[]>([])
-  const [probeSignals, setProbeSignals] = useState<SignalResult[]>([])
-  const [summary, setSummary] = useState<Summary | null>(null)
   const [probing, setProbing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
   const [copyStatus, setCopyStatus] = useState("")
+  const [verdict, setVerdict] = useState<VerdictResponse | null>(null)
+  const [recordInput, setRecordInput] = useState(false)
+  const [recording, setRecording] = useState<InputRecording | null>(null)
+  const [visitor, setVisitor] = useState<{ visitorId: string, fingerprint: string } | null>(null)
+  const [challenged, setChallenged] = useState(false)
+  const [overrides, setOverrides] = useState<Overrides | null>(null)
 
   useEffect(() => {
-    const staticResults = runStaticDetections()
-    setStaticSignals(staticResults)
-  }, [])
-
-  const allSignals = useMemo(
-    () => [...staticSignals, ...behavioralSignals, ...microSignals, ...probeSignals],
-    [staticSignals, behavioralSignals, microSignals, probeSignals]
+    const controller = new AbortController()
+    // Read after mount: the server render never has overrides.
+    const active = loadOverrides()
+    const env = overrideEnv(active)
+    setOverrides(active)
+    const report = failure(controller.signal)
+    const firstVerdict = fetchDetectorConfig()
+      .then((config) => {
+        detectorRegistry.reset().configure(config)
+        if (active) detectorRegistry.configure(overridesConfig(active))
+        return runStaticDetections({
+          env,
+          signal: controller.signal,
+          onResult: (r) => monitor.observe([r], { decay: false }),
+        })
+      })
+      .then((staticResults) => requestVerdict(staticResults))
+      .then((v) => {
+        if (controller.signal.aborted) return null
+        if (v) setVerdict(v)
+        else setError("Verdict request failed: the verdict API did not answer")
+        return v
+      }, report("Static detections failed"))
+    // The fingerprint waits on IndexedDB, so it does not hold up the first verdict; its
+    // signals reach the server with the next one.
+    trackVisit(env)
+      .then(async (visit) => {
+        monitor.observe(visit.signals, { decay: false })
+        if (!controller.signal.aborted) setVisitor({ visitorId: visit.visitorId, fingerprint: visit.fingerprint.id })
+        const v = await firstVerdict
+        await visit.record(v?.summary.level, v?.summary.probability)
+      })
+      .catch(report("Fingerprint failed"))
+    requestHeaderSignals().then((results) => monitor.observe(results, { decay: false }))
+    return () => controller.abort()
+  }, [monitor])
+
+  useEffect(() => () => probeController.current?.abort(), [])
+
+  const json = useMemo(
+    () => JSON.stringify({ summary, verdict: verdict && { ...verdict.summary, token: verdict.token }, visitor, overrides, signals: allSignals }, null, 2),
+    [summary, verdict, visitor, overrides, allSignals]
   )
 
-  useEffect(() => {
-    const deviceFactor = /iP(hone|ad|od)/i.test(navigator.userAgent)
-      ? 0.7
-      : /Android|Mobile/i.test(navigator.userAgent)
-        ? 0.85
-        : 1
-
-    const weightedSignals = allSignals.map((s) => ({ ...s, weight: s.weight * deviceFactor }))
-    setSummary(summarize(weightedSignals))
-  }, [allSignals])
-
-  const json = useMemo(() => JSON.stringify({ summary, signals: allSignals }, null, 2), [summary, allSignals])
+  // Shows a failure on the page; aborts are not failures.
+  function failure(signal?: AbortSignal) {
+    return (what: string) => (err: unknown) => {
+      if (isAbortError(err) || signal?.aborted) return
+      setError(`${what}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
 
   async function handleProbe() {
+    if (overrides?.freeze) return
     setProbing(true)
+    setError(null)
+    const controller = new AbortController()
+    probeController.current = controller
     try {
-      const probeResults = await startActivityProbe(7000)
+      let probeResults
+      if (recordInput) {
+        const recorded = await recordActivityProbe(7000, { signal: controller.signal })
+        setRecording(recorded.recording)
+        probeResults = recorded.analysis.probe
+      } else {
+        probeResults = await startActivityProbe(7000, { signal: controller.signal })
+      }
       const ts = Date.now()
       const uniqueProbes = probeResults.map((s, i) => ({
         ...s,
         id: `${s.id}-probe-${i}-${ts}`,
       }))
-      setProbeSignals(uniqueProbes)
+      monitor.observe(uniqueProbes)
+      const v = await requestVerdict(monitor.results())
+      if (!v) throw new Error("the verdict API did not answer")
+      setVerdict(v)
+    } catch (err) {
+      failure(controller.signal)("Activity check failed")(err)
     } finally {
-      setProbing(false)
+      if (!controller.signal.aborted) setProbing(false)
     }
   }
 
+  // The challenge outcome is applied server-side, so the verdict is fetched again.
+  async function handleChallengeDone() {
+    setChallenged(true)
+    const v = await requestVerdict(monitor.results())
+    if (v) setVerdict(v)
+    else setError("Verdict request failed: the verdict API did not answer")
+  }
+
   async function handleCopy() {
     try {
       await navigator.clipboard.writeText(json)
@@ -261,6 +246,12 @@ export default function Page() {
     }
   }
 
+  // Lets a visitor send us their exact environment so a false positive can be replayed with `npm run replay`.
+  async function handleSnapshot() {
+    const snapshot = await captureSnapshot()
+    downloadJson(`env-snapshot-${snapshot.capturedAt}.json`, snapshot)
+  }
+
   return (
     <main className="min-h-dvh px-6 py-10 md:py-14">
       <div className="mx-auto max-w-3xl space-y-8">
@@ -278,36 +269,100 @@ export default function Page() {
           <div className="flex flex-wrap items-center justify-between gap-3">
             <div className="text-sm text-muted-foreground">
               Risk score: <span className="font-mono">{summary?.score ?? 0}</span> /{" "}
-              <span className="font-mono">{summary?.max ?? 0}</span> (Confidence:{" "}
-              {summary ? Math.round((summary.score / summary.max) * 100) : 0}%)
+              <span className="font-mono">{summary?.max ?? 0}</span> (P(bot):{" "}
+              {summary ? Math.round(summary.probability * 100) : 0}%)
+              {summary?.forcedBy && (
+                <> · Forced by <span className="font-mono">{summary.forcedBy.join(", ")}</span></>
+              )}
+              {verdict && (
+                <>
+                  {" "}· Server verdict: <span className="font-mono">{verdict.summary.level}</span>
+                </>
+              )}
+              {!!summary?.contributors.length && (
+                <div className="mt-1 text-xs">
+                  Top contributors:{" "}
+                  {summary.contributors.map((c) => (
+                    <span key={c.id} className="mr-2 font-mono">
+                      {c.id} (+{c.contribution})
+                    </span>
+                  ))}
+                </div>
+              )}
+              {changes.length > 1 && (
+                <div className="mt-1 text-xs">
+                  Level changes:{" "}
+                  {changes.map((c) => (
+                    <span key={c.at} className="mr-2 font-mono">
+                      {c.previous} → {c.level} @ {new Date(c.at).toLocaleTimeString()}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
 
-            <div className="flex gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={recordInput}
+                  disabled={probing}
+                  onChange={(e) => setRecordInput(e.target.checked)}
+                />
+                Record input
+              </label>
+
               <button
                 onClick={handleProbe}
-                disabled={probing}
+                disabled={probing || overrides?.freeze}
                 className={cn(
                   "rounded-md px-3 py-2 text-sm ring-1 transition-colors",
-                  probing
+                  probing || overrides?.freeze
                     ? "bg-muted text-muted-foreground ring-muted-foreground/20 cursor-not-allowed"
                     : "bg-primary text-primary-foreground ring-primary/30 hover:bg-primary/90"
                 )}
               >
-                {probing ? "Probing… (7s)" : "Run 5-7s activity check"}
+                {overrides?.freeze ? "Probes frozen" : probing ? "Probing… (7s)" : "Run 5-7s activity check"}
               </button>
 
+              {debug && (
+                <button
+                  onClick={handleCopy}
+                  className="relative rounded-md px-3 py-2 text-sm ring-1 bg-secondary hover:bg-secondary/80 transition-colors"
+                >
+                  Copy JSON
+                  {copyStatus && (
+                    <span className="absolute -top-6 right-0 text-xs text-emerald-400">{copyStatus}</span>
+                  )}
+                </button>
+              )}
+
               <button
-                onClick={handleCopy}
-                className="relative rounded-md px-3 py-2 text-sm ring-1 bg-secondary hover:bg-secondary/80 transition-colors"
+                onClick={handleSnapshot}
+                className="rounded-md px-3 py-2 text-sm ring-1 bg-secondary hover:bg-secondary/80 transition-colors"
               >
-                Copy JSON
-                {copyStatus && (
-                  <span className="absolute -top-6 right-0 text-xs text-emerald-400">{copyStatus}</span>
-                )}
+                Download snapshot
               </button>
+
+              {recording && (
+                <button
+                  onClick={() => downloadJson(`input-recording-${recording.startedAt}.json`, recording)}
+                  className="rounded-md px-3 py-2 text-sm ring-1 bg-secondary hover:bg-secondary/80 transition-colors"
+                >
+                  Download recording
+                </button>
+              )}
             </div>
+
+            {error && (
+              <p role="alert" className="mt-2 text-sm text-red-400">{error}</p>
+            )}
           </div>
 
+          {verdict?.summary.level === "medium" && !challenged && (
+            <StepUpChallenge kind="pow" onDone={handleChallengeDone} />
+          )}
+
           <div className="mt-5 grid gap-3">
             {allSignals.map((s) => (
               <CheckItem key={s.id} s={s} />
@@ -329,11 +384,14 @@ export default function Page() {
           </details>
         </section>
 
-        <section className="rounded-xl border border-border/60 bg-card/30 p-5 md:p-6">
-          <h2 className="text-lg font-semibold mb-3">Diagnostics JSON</h2>
-          <pre className="overflow-auto rounded-lg bg-secondary/30 p-4 text-xs leading-relaxed">{json}</pre>
-        </section>
+        {debug && (
+          <section className="rounded-xl border border-border/60 bg-card/30 p-5 md:p-6">
+            <h2 className="text-lg font-semibold mb-3">Diagnostics JSON</h2>
+            <pre className="overflow-auto rounded-lg bg-secondary/30 p-4 text-xs leading-relaxed">{json}</pre>
+          </section>
+        )}
       </div>
+      {overrides && <OverrideOverlay overrides={overrides} />}
     </main>
   )
 }
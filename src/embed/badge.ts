@@ -0,0 +1,58 @@
+import { LEVEL_LABELS } from "../app/lib/botDetector"
+import { BotDetector, type DetectorState } from "./detector"
+
+export const BADGE_TAG = "bot-detector-badge"
+
+const TONES = {
+  none: { badge: "background:#374151;color:#d1d5db", bar: "#f87171" },
+  low: { badge: "background:#1f2937;color:#f9fafb", bar: "#34d399" },
+  medium: { badge: "background:#854d0e;color:#fef08a", bar: "#facc15" },
+  high: { badge: "background:#7f1d1d;color:#fecaca", bar: "#f87171" },
+}
+
+const STYLE = `
+:host { display: inline-flex; flex-direction: column; align-items: flex-end; font: 500 14px/1.25 system-ui, sans-serif; }
+.badge { padding: 6px 12px; border-radius: 9999px; box-shadow: 0 0 0 1px rgba(75, 85, 99, .3); transition: background-color .2s ease-in-out; }
+.track { width: 96px; height: 4px; margin-top: 4px; border-radius: 9999px; background: rgba(75, 85, 99, .3); }
+.bar { height: 4px; border-radius: 9999px; transition: width .3s; }
+`
+
+// Mirrors the demo page's StatusBadge. Set `verdict` to show the server level
+// instead of the client-side one once it is available.
+export function defineBadge(): void {
+  if (typeof customElements === "undefined" || customElements.get(BADGE_TAG)) return
+
+  class BotDetectorBadge extends HTMLElement {
+    private unsubscribe?: () => void
+    private badge: HTMLSpanElement
+    private bar: HTMLDivElement
+
+    constructor() {
+      super()
+      const root = this.attachShadow({ mode: "open" })
+      root.innerHTML = `<style>${STYLE}</style><span class="badge" aria-live="polite" part="badge"></span><div class="track" part="track"><div class="bar" part="bar"></div></div>`
+      this.badge = root.querySelector(".badge")!
+      this.bar = root.querySelector(".bar")!
+    }
+
+    connectedCallback() {
+      this.unsubscribe = BotDetector.subscribe(s => this.render(s))
+    }
+
+    disconnectedCallback() {
+      this.unsubscribe?.()
+      this.unsubscribe = undefined
+    }
+
+    private render({ summary, verdict }: DetectorState) {
+      const shown = this.hasAttribute("verdict") && verdict ? verdict.summary : summary
+      const tone = TONES[shown?.level ?? "none"]
+      this.badge.textContent = shown ? LEVEL_LABELS[shown.level] : "Awaiting"
+      this.badge.style.cssText = tone.badge
+      this.bar.style.background = tone.bar
+      this.bar.style.width = `${shown ? Math.round(shown.probability * 100) : 0}%`
+    }
+  }
+
+  customElements.define(BADGE_TAG, BotDetectorBadge)
+}
@@ -0,0 +1,139 @@
+import {
+  detectorRegistry,
+  runStaticDetections,
+  startActivityProbe,
+  type SignalResult,
+  type Summary,
+} from "../app/lib/botDetector"
+import { applyCurrentBaseline } from "../app/lib/coherence"
+import { parseDetectorConfig, type DetectorConfig } from "../app/lib/detectorRegistry"
+import { captureSnapshot } from "../app/lib/env"
+import { InstrumentationWatcher, lateInstrumentationSignal } from "../app/lib/instrumentation"
+import { RiskMonitor, type RiskMonitorOptions } from "../app/lib/riskMonitor"
+import { AttentionTracker } from "../app/lib/timing"
+import type { VerdictResponse } from "../app/lib/verdict"
+import { fetchDetectorConfig, requestHeaderSignals, requestVerdict } from "../app/lib/verdictClient"
+
+export type BotDetectorConfig = {
+  // Origin serving /api/verdict, /api/signals and /api/detector-config.
+  // Empty means same-origin; `false` runs fully client-side without a verdict.
+  endpoint?: string | false
+  // Local detector overrides; when omitted they are fetched from the endpoint.
+  detectors?: DetectorConfig
+  monitor?: Pick<RiskMonitorOptions, "windowMs" | "intervalMs" | "halfLifeMs">
+  // Keep re-scoring behavioral input in the background (default true).
+  watch?: boolean
+}
+
+export type RunOptions = {
+  // Also record an activity probe of this many milliseconds.
+  probeMs?: number
+  signal?: AbortSignal
+}
+
+export type DetectorState = {
+  summary: Summary | null
+  results: SignalResult[]
+  verdict: VerdictResponse | null
+}
+
+type Listener = (state: DetectorState) => void
+
+let config: BotDetectorConfig = {}
+let monitor: RiskMonitor | null = null
+let controller: AbortController | null = null
+let verdict: VerdictResponse | null = null
+const listeners = new Set<Listener>()
+
+function state(): DetectorState {
+  return { summary: monitor?.getSummary() ?? null, results: monitor?.results() ?? [], verdict }
+}
+
+function notify(): void {
+  const current = state()
+  listeners.forEach(l => l(current))
+}
+
+function base(): string | null {
+  return config.endpoint === false ? null : config.endpoint ?? ""
+}
+
+function init(options: BotDetectorConfig = {}): typeof BotDetector {
+  destroy()
+  config = options
+  controller = new AbortController()
+  monitor = new RiskMonitor({ adjust: applyCurrentBaseline, ...options.monitor })
+  monitor.onUpdate(notify)
+  if (options.watch ?? true) {
+    const m = monitor.start(controller.signal)
+    new InstrumentationWatcher(hits => m.observe([lateInstrumentationSignal(hits)], { decay: false })).start(controller.signal)
+    new AttentionTracker(r => m.observe([r], { decay: false })).start(controller.signal)
+  }
+  return BotDetector
+}
+
+function active(): { monitor: RiskMonitor, controller: AbortController } {
+  if (!monitor || !controller) init()
+  return { monitor: monitor!, controller: controller! }
+}
+
+async function run({ probeMs, signal }: RunOptions = {}): Promise<DetectorState> {
+  const { monitor, controller } = active()
+  const abort = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal
+  const api = base()
+
+  const overrides = config.detectors ?? (api === null ? {} : await fetchDetectorConfig(api))
+  detectorRegistry.reset().configure(parseDetectorConfig(overrides))
+
+  const [, headers] = await Promise.all([
+    runStaticDetections({ signal: abort, onResult: r => monitor.observe([r], { decay: false }) }),
+    api === null ? [] : requestHeaderSignals(api),
+  ])
+  monitor.observe(headers, { decay: false })
+
+  if (probeMs) {
+    const ts = Date.now()
+    const probes = await startActivityProbe(probeMs, { signal: abort })
+    monitor.observe(probes.map((s, i) => ({ ...s, id: `${s.id}-probe-${i}-${ts}` })))
+  }
+
+  await getVerdict()
+  return state()
+}
+
+// Asks the server to re-score everything observed so far and sign a fresh verdict token.
+async function getVerdict(): Promise<VerdictResponse | null> {
+  const api = base()
+  if (api === null || !monitor) return null
+  const next = await requestVerdict(monitor.results(), api)
+  if (next) {
+    verdict = next
+    notify()
+  }
+  return next
+}
+
+function subscribe(listener: Listener): () => void {
+  listeners.add(listener)
+  listener(state())
+  return () => listeners.delete(listener)
+}
+
+function destroy(): void {
+  controller?.abort()
+  monitor?.stop()
+  controller = null
+  monitor = null
+  verdict = null
+}
+
+export const BotDetector = {
+  init,
+  run,
+  subscribe,
+  getVerdict,
+  captureSnapshot,
+  getState: state,
+  destroy,
+  registry: detectorRegistry,
+}
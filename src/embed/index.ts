@@ -0,0 +1,19 @@
+import { defineBadge } from "./badge"
+import { BotDetector } from "./detector"
+
+export { BotDetector } from "./detector"
+export type { BotDetectorConfig, DetectorState, RunOptions } from "./detector"
+export { BADGE_TAG } from "./badge"
+export type { SignalResult, Summary } from "../app/lib/botDetector"
+export type { VerdictResponse } from "../app/lib/verdict"
+
+declare global {
+  interface Window {
+    BotDetector?: typeof BotDetector
+  }
+}
+
+if (typeof window !== "undefined") {
+  window.BotDetector = BotDetector
+  defineBadge()
+}